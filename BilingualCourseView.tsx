@@ -0,0 +1,130 @@
+import React from 'react';
+import { Messages } from './i18n';
+import { BilingualPair, BilingualVersions, pairByPosition, pairMarkdownBlocks } from './bilingualCourse';
+import MarkdownContent from './MarkdownContent';
+import { glossaryEntryMarkdown } from './glossary';
+
+interface BilingualCourseViewProps {
+  versions: BilingualVersions;
+  t: Messages;
+}
+
+interface BilingualRowProps {
+  pair: BilingualPair;
+  t: Messages;
+  render: (text: string) => React.ReactNode;
+  className?: string;
+}
+
+// One Somali/English pair. Two columns on wide screens; on narrow screens the cells
+// stack, which interleaves the two languages paragraph by paragraph.
+const BilingualRow: React.FC<BilingualRowProps> = ({ pair, t, render, className }) => (
+  <div className={`bilingual-row ${className ?? ''}`.trim()}>
+    <div className="bilingual-cell" lang="so" dir="ltr" data-label={t.somaliColumn}>{pair.so && render(pair.so)}</div>
+    <div className="bilingual-cell" lang="en" dir="ltr" data-label={t.englishColumn}>{pair.en && render(pair.en)}</div>
+  </div>
+);
+
+const renderBlock = (text: string) => <MarkdownContent text={text} />;
+const renderInline = (text: string) => <MarkdownContent text={text} inline />;
+
+// Read-only parallel view of a course's Somali and English versions.
+const BilingualCourseView: React.FC<BilingualCourseViewProps> = ({ versions, t }) => {
+  const { so, en } = versions;
+  const glossaryPairs = pairByPosition((so.glossary ?? []).map(glossaryEntryMarkdown), (en.glossary ?? []).map(glossaryEntryMarkdown));
+
+  return (
+    <div className="bilingual-view">
+      <div className="bilingual-row bilingual-column-headings" aria-hidden="true">
+        <div className="bilingual-cell">{t.somaliColumn}</div>
+        <div className="bilingual-cell">{t.englishColumn}</div>
+      </div>
+
+      <section className="course-section" aria-labelledby="bilingual-outline-heading">
+        <h3 id="bilingual-outline-heading">{t.courseOutline}</h3>
+        <div className="course-section-content">
+          {pairByPosition(so.outline, en.outline).map((pair, index) => (
+            <BilingualRow key={index} pair={pair} t={t} render={text => <p>{renderInline(text)}</p>} />
+          ))}
+        </div>
+      </section>
+
+      <section className="course-section" aria-labelledby="bilingual-lessons-heading">
+        <h3 id="bilingual-lessons-heading">{t.mainLessons}</h3>
+        <div className="course-section-content">
+          {so.lessons.map((lesson, index) => (
+            <div key={index} className="bilingual-lesson">
+              <BilingualRow
+                pair={{ so: lesson.title, en: en.lessons[index]?.title ?? '' }}
+                t={t}
+                render={text => <h4>{text}</h4>}
+              />
+              {(so.lessonSummaries[index] || en.lessonSummaries[index]) && (
+                <BilingualRow
+                  pair={{ so: so.lessonSummaries[index] ?? '', en: en.lessonSummaries[index] ?? '' }}
+                  t={t}
+                  render={text => <p className="lesson-summary">{renderInline(text)}</p>}
+                />
+              )}
+              {pairMarkdownBlocks(lesson.content, en.lessons[index]?.content ?? '').map((pair, blockIndex) => (
+                <BilingualRow key={blockIndex} pair={pair} t={t} render={renderBlock} />
+              ))}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="course-section" aria-labelledby="bilingual-summary-heading">
+        <h3 id="bilingual-summary-heading">{t.courseSummary}</h3>
+        <div className="course-section-content">
+          {pairMarkdownBlocks(so.summary, en.summary).map((pair, index) => (
+            <BilingualRow key={index} pair={pair} t={t} render={renderBlock} />
+          ))}
+        </div>
+      </section>
+
+      {glossaryPairs.length > 0 && (
+        <section className="course-section" aria-labelledby="bilingual-glossary-heading">
+          <h3 id="bilingual-glossary-heading">{t.glossary}</h3>
+          <div className="course-section-content">
+            {glossaryPairs.map((pair, index) => (
+              <BilingualRow key={index} pair={pair} t={t} render={text => <p>{renderInline(text)}</p>} />
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="course-section" aria-labelledby="bilingual-quiz-heading">
+        <h3 id="bilingual-quiz-heading">{t.knowledgeCheck}</h3>
+        <div className="course-section-content">
+          <p className="bilingual-note">{t.bilingualQuizNote}</p>
+          {so.quiz.map((item, index) => {
+            const translated = en.quiz[index];
+            const renderQuestion = (question: string, options: string[]) => (
+              <>
+                <p>{index + 1}. {renderInline(question)}</p>
+                {options.length > 0 && (
+                  <ul>
+                    {options.map((option, oIndex) => <li key={oIndex}>{renderInline(option)}</li>)}
+                  </ul>
+                )}
+              </>
+            );
+            return (
+              <div key={index} className="bilingual-row bilingual-question">
+                <div className="bilingual-cell" lang="so" dir="ltr" data-label={t.somaliColumn}>
+                  {renderQuestion(item.question, item.options)}
+                </div>
+                <div className="bilingual-cell" lang="en" dir="ltr" data-label={t.englishColumn}>
+                  {translated && renderQuestion(translated.question, translated.options)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default BilingualCourseView;
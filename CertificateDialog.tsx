@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Course, LearnerProfile, QuizAttempt } from './interfaces';
+import { LocaleCode, Messages } from './i18n';
+import { Certificate, canIssueCertificateCodes, certificateVerifyLink, courseFingerprint, issueCertificateCode } from './certificate';
+import { buildCertificatePrintHtml, buildCertificateSvg } from './certificateExport';
+import { downloadFile, openForPrinting } from './download';
+import { profileStorageKey } from './profiles';
+
+const LEARNER_NAME_KEY = 'geeddi-learner-name';
+
+interface CertificateDialogProps {
+  course: Course;
+  courseLanguage: LocaleCode; // The certificate is written in the course's language
+  level: string | null; // Predefined course level the course was generated for
+  attempt: QuizAttempt; // The passing attempt
+  profile: LearnerProfile; // The name defaults to the profile's until one is entered
+  t: Messages;
+  onClose: () => void;
+}
+
+interface IssuedCertificate {
+  certificate: Certificate;
+  code: string | null; // Null when this copy of the app has no signing service
+  svg: string;
+}
+
+const CertificateDialog: React.FC<CertificateDialogProps> = ({ course, courseLanguage, level, attempt, profile, t, onClose }) => {
+  const learnerNameKey = profileStorageKey(profile.id, LEARNER_NAME_KEY);
+  const [name, setName] = useState(() => localStorage.getItem(learnerNameKey) ?? profile.name);
+  const [issued, setIssued] = useState<IssuedCertificate | null>(null);
+  const [issuing, setIssuing] = useState(false);
+  const [error, setError] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const learnerName = name.trim().replace(/\s+/g, ' ');
+    if (!learnerName) return;
+    setIssuing(true);
+    setError(false);
+    try {
+      localStorage.setItem(learnerNameKey, learnerName);
+      const certificate: Certificate = {
+        name: learnerName,
+        courseTitle: course.title,
+        level,
+        percentage: attempt.percentage,
+        completedAt: attempt.completedAt,
+        courseHash: await courseFingerprint(course),
+        language: courseLanguage,
+      };
+      const code = canIssueCertificateCodes ? await issueCertificateCode(certificate) : null;
+      const verification = code === null
+        ? null
+        : { code, verifyLink: certificateVerifyLink(code, `${window.location.origin}${window.location.pathname}`) };
+      setIssued({ certificate, code, svg: buildCertificateSvg(certificate, verification) });
+      setCopied(false);
+    } catch (err) {
+      console.error('Failed to issue certificate:', err);
+      setError(true);
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const fileName = `Geeddi-Certificate-${course.title.replace(/[^a-z0-9]/gi, '_')}`;
+
+  const copyCode = async () => {
+    if (!issued?.code) return;
+    try {
+      await navigator.clipboard.writeText(issued.code);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy verification code:', err);
+    }
+  };
+
+  return (
+    <div className="download-dialog-overlay" role="dialog" aria-modal="true" aria-labelledby="certificate-dialog-title">
+      <div className="download-dialog certificate-dialog">
+        <h4 id="certificate-dialog-title">{t.certificateTitle}</h4>
+        <form className="certificate-name-form" onSubmit={handleIssue}>
+          <label htmlFor="certificate-name">{t.certificateNameLabel}</label>
+          <input
+            id="certificate-name"
+            type="text"
+            value={name}
+            maxLength={80}
+            autoComplete="name"
+            required
+            onChange={(e) => { setName(e.target.value); setIssued(null); }}
+          />
+          <button type="submit" className="confirm-button" disabled={issuing || !name.trim()}>
+            {t.createCertificate}
+          </button>
+        </form>
+        {error && <p role="status" className="incorrect-message">{t.certificateError}</p>}
+
+        {issued && (
+          <>
+            <img
+              className="certificate-preview"
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(issued.svg)}`}
+              alt={t.certificateTitle}
+            />
+            <div className="certificate-downloads">
+              <button type="button" onClick={() => downloadFile(issued.svg, `${fileName}.svg`, 'image/svg+xml;charset=utf-8')}>
+                {t.downloadCertificateSvg}
+              </button>
+              <button type="button" onClick={() => openForPrinting(buildCertificatePrintHtml(issued.certificate, issued.svg), `${fileName}.html`)}>
+                {t.downloadCertificatePdf}
+              </button>
+            </div>
+            {issued.code === null ? (
+              <p className="certificate-unsigned">{t.certificateUnsigned}</p>
+            ) : (
+              <>
+                <label className="certificate-code-label" htmlFor="certificate-code">{t.certificateCodeLabel}</label>
+                <textarea id="certificate-code" className="certificate-code" readOnly value={issued.code} dir="ltr" rows={3} onFocus={e => e.target.select()} />
+                <button type="button" className="certificate-copy-button" onClick={copyCode}>
+                  {copied ? t.linkCopied : t.copyLink}
+                </button>
+              </>
+            )}
+          </>
+        )}
+
+        <div className="download-dialog-actions">
+          <button className="cancel-button" onClick={onClose}>
+            {t.closeModal}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CertificateDialog;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Messages } from './i18n';
+import { CertificateCheck, verifyCertificateCode } from './certificate';
+
+interface CertificateVerifierProps {
+  t: Messages;
+  initialCode: string | null; // Code from a scanned verification link; opens the section and checks it
+}
+
+// Collapsible screen that checks a certificate's verification code on this device.
+const CertificateVerifier: React.FC<CertificateVerifierProps> = ({ t, initialCode }) => {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<CertificateCheck | null>(null);
+  const sectionRef = useRef<HTMLDetailsElement>(null);
+
+  const verify = async (code: string) => {
+    setResult(await verifyCertificateCode(code));
+  };
+
+  useEffect(() => {
+    if (!initialCode) return;
+    setOpen(true);
+    setInput(initialCode);
+    verify(initialCode);
+    sectionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [initialCode]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) verify(input);
+  };
+
+  return (
+    <details
+      ref={sectionRef}
+      className="certificate-verifier"
+      open={open}
+      onToggle={(e) => setOpen((e.target as HTMLDetailsElement).open)}
+    >
+      <summary>{t.verifyCertificate}</summary>
+      <p className="certificate-verifier-intro">{t.verifyCertificateIntro}</p>
+      <form onSubmit={handleSubmit}>
+        <label htmlFor="certificate-verify-code" className="visually-hidden">{t.certificateCodeLabel}</label>
+        <textarea
+          id="certificate-verify-code"
+          value={input}
+          rows={3}
+          dir="ltr"
+          placeholder="GC2.…"
+          onChange={(e) => { setInput(e.target.value); setResult(null); }}
+        />
+        <button type="submit" disabled={!input.trim()}>{t.verifyCertificateButton}</button>
+      </form>
+
+      {result && (
+        <div role="status" className={`certificate-check certificate-check-${result.status}`}>
+          {result.status === 'valid' ? (
+            <>
+              <p className="correct-message">{t.certificateValid}</p>
+              <dl>
+                <dt>{t.certificateNameField}</dt>
+                <dd>{result.certificate.name}</dd>
+                <dt>{t.certificateCourseField}</dt>
+                <dd lang={result.certificate.language}>{result.certificate.courseTitle}</dd>
+                {result.certificate.level && (
+                  <>
+                    <dt>{t.certificateLevelField}</dt>
+                    <dd lang={result.certificate.language}>{result.certificate.level}</dd>
+                  </>
+                )}
+                <dt>{t.certificateScoreLabel}</dt>
+                <dd>{result.certificate.percentage}%</dd>
+                <dt>{t.certificateDateField}</dt>
+                <dd>{new Date(result.certificate.completedAt).toLocaleDateString()}</dd>
+                <dt>{t.certificateCourseFingerprint}</dt>
+                <dd dir="ltr"><code>{result.certificate.courseHash}</code></dd>
+              </dl>
+            </>
+          ) : (
+            <p className="incorrect-message">{result.status === 'invalid' ? t.certificateInvalid : t.certificateMalformed}</p>
+          )}
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default CertificateVerifier;
@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { SavedCourse } from './interfaces';
+import { Messages } from './i18n';
+import { IMPORTED_MODEL } from './courseImport';
+
+interface CourseLibraryProps {
+  courses: SavedCourse[];
+  activeCourseId: string | null;
+  t: Messages;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<void>; // Rejects when the file holds no usable course
+}
+
+const CourseLibrary: React.FC<CourseLibraryProps> = ({ courses, activeCourseId, t, onOpen, onRename, onDelete, onImport }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (saved: SavedCourse) => {
+    setEditingId(saved.id);
+    setDraftName(saved.name);
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId) {
+      onRename(editingId, draftName);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm(t.confirmDeleteCourse)) {
+      onDelete(id);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    setImportError(null);
+    try {
+      await onImport(file);
+    } catch (err) {
+      console.error('Failed to import course:', err);
+      setImportError(`${t.courseImportError} ${err instanceof Error ? err.message : ''}`.trim());
+    }
+  };
+
+  return (
+    <section className="course-library" aria-labelledby="course-library-heading">
+      <div className="library-header">
+        <h3 id="course-library-heading">{t.courseLibrary}</h3>
+        <button type="button" onClick={() => fileInputRef.current?.click()}>{t.importCourse}</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.md,.markdown,application/json,text/markdown"
+          className="visually-hidden"
+          tabIndex={-1}
+          aria-hidden="true"
+          onChange={handleImport}
+        />
+      </div>
+      {importError && <p role="status" className="library-import-error incorrect-message">{importError}</p>}
+      {courses.length === 0 ? (
+        <p className="library-empty">{t.libraryEmpty}</p>
+      ) : (
+        <ul className="library-list">
+          {courses.map(saved => (
+            <li key={saved.id} className={`library-item ${saved.id === activeCourseId ? 'active' : ''}`}>
+              {editingId === saved.id ? (
+                <form className="library-rename-form" onSubmit={submitRename}>
+                  <label htmlFor={`rename-${saved.id}`} className="visually-hidden">{t.renameCourse}</label>
+                  <input
+                    id={`rename-${saved.id}`}
+                    type="text"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    autoFocus
+                  />
+                  <button type="submit">{t.saveName}</button>
+                  <button type="button" onClick={() => setEditingId(null)}>{t.cancelDownload}</button>
+                </form>
+              ) : (
+                <>
+                  <div className="library-item-info">
+                    <span className="library-item-name">{saved.name}</span>
+                    <span className="library-item-meta">
+                      {saved.language.toUpperCase()} · {t.lessonCount(saved.course.lessons.length)} · {saved.model === IMPORTED_MODEL ? t.importedCourse : saved.model} · {t.savedOn} {new Date(saved.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <div className="library-item-actions">
+                    <button onClick={() => onOpen(saved.id)}>{t.openCourse}</button>
+                    <button onClick={() => startRename(saved)}>{t.renameCourse}</button>
+                    <button className="library-delete-button" onClick={() => handleDelete(saved.id)}>{t.deleteCourse}</button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default CourseLibrary;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { CourseParameters, QuestionType, QUESTION_TYPES } from './interfaces';
+import { Messages, TextKey } from './i18n';
+import { questionCount } from './coursePrompt';
+
+interface CustomCourseFormProps {
+  t: Messages;
+  disabled: boolean;
+  onGenerate: (parameters: CourseParameters) => void;
+}
+
+const MAX_LESSONS = 12;
+const MAX_QUESTIONS_PER_TYPE = 15;
+
+// Translation key of the count label for each question type
+const QUESTION_MIX_LABELS: Record<QuestionType, TextKey> = {
+  'multiple-choice': 'multipleChoiceCountLabel',
+  'true-false': 'trueFalseCountLabel',
+  'multi-select': 'multiSelectCountLabel',
+  'fill-in-the-blank': 'fillInTheBlankCountLabel',
+  'ordering': 'orderingCountLabel',
+  'matching': 'matchingCountLabel',
+  'short-answer': 'shortAnswerCountLabel',
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : min;
+
+// The number fields: the lesson count and one count per question type
+type CountField = 'lessonCount' | QuestionType;
+
+const withCount = (parameters: CourseParameters, field: CountField, value: number): CourseParameters =>
+  field === 'lessonCount'
+    ? { ...parameters, lessonCount: clamp(value, 1, MAX_LESSONS) }
+    : { ...parameters, questionMix: { ...parameters.questionMix, [field]: clamp(value, 0, MAX_QUESTIONS_PER_TYPE) } };
+
+const CustomCourseForm: React.FC<CustomCourseFormProps> = ({ t, disabled, onGenerate }) => {
+  const [parameters, setParameters] = useState<CourseParameters>({
+    topic: '',
+    audience: '',
+    difficulty: 'beginner',
+    lessonCount: 4,
+    questionMix: { 'multiple-choice': 3, 'true-false': 2 },
+    lessonLength: 'medium',
+  });
+
+  // Number fields keep what is typed, so one can be cleared to type a new number; the
+  // value is clamped into range when the field is left or the form is submitted
+  const [drafts, setDrafts] = useState<Partial<Record<CountField, string>>>({});
+
+  const update = <K extends keyof CourseParameters>(key: K, value: CourseParameters[K]) => {
+    setParameters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const commitDraft = (field: CountField) => {
+    const draft = drafts[field];
+    if (draft === undefined) return;
+    setParameters(prev => withCount(prev, field, Number(draft)));
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  };
+
+  const committed = (Object.keys(drafts) as CountField[])
+    .reduce((current, field) => withCount(current, field, Number(drafts[field])), parameters);
+  const canSubmit = !disabled && committed.topic.trim() !== '' && questionCount(committed) > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setParameters(committed);
+    setDrafts({});
+    onGenerate({ ...committed, topic: committed.topic.trim(), audience: committed.audience.trim() });
+  };
+
+  const countInput = (field: CountField, value: number, min: number, max: number) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={drafts[field] ?? value}
+      onChange={(e) => { const text = e.target.value; setDrafts(prev => ({ ...prev, [field]: text })); }}
+      onBlur={() => commitDraft(field)}
+    />
+  );
+
+  return (
+    <form className="custom-course-form" onSubmit={handleSubmit} aria-labelledby="custom-course-heading">
+      <h3 id="custom-course-heading">{t.customCourse}</h3>
+
+      <label className="form-field form-field-wide">
+        <span>{t.topicLabel}</span>
+        <input
+          type="text"
+          value={parameters.topic}
+          placeholder={t.topicPlaceholder}
+          onChange={(e) => update('topic', e.target.value)}
+          required
+        />
+      </label>
+
+      <label className="form-field form-field-wide">
+        <span>{t.audienceLabel}</span>
+        <input
+          type="text"
+          value={parameters.audience}
+          placeholder={t.audiencePlaceholder}
+          onChange={(e) => update('audience', e.target.value)}
+        />
+      </label>
+
+      <label className="form-field">
+        <span>{t.difficultyLabel}</span>
+        <select
+          value={parameters.difficulty}
+          onChange={(e) => update('difficulty', e.target.value as CourseParameters['difficulty'])}
+        >
+          <option value="beginner">{t.difficultyBeginner}</option>
+          <option value="intermediate">{t.difficultyIntermediate}</option>
+          <option value="advanced">{t.difficultyAdvanced}</option>
+        </select>
+      </label>
+
+      <label className="form-field">
+        <span>{t.lessonLengthLabel}</span>
+        <select
+          value={parameters.lessonLength}
+          onChange={(e) => update('lessonLength', e.target.value as CourseParameters['lessonLength'])}
+        >
+          <option value="short">{t.lengthShort}</option>
+          <option value="medium">{t.lengthMedium}</option>
+          <option value="long">{t.lengthLong}</option>
+        </select>
+      </label>
+
+      <label className="form-field">
+        <span>{t.lessonCountLabel}</span>
+        {countInput('lessonCount', parameters.lessonCount, 1, MAX_LESSONS)}
+      </label>
+
+      {QUESTION_TYPES.map(type => (
+        <label key={type} className="form-field">
+          <span>{t[QUESTION_MIX_LABELS[type]]}</span>
+          {countInput(type, parameters.questionMix[type] ?? 0, 0, MAX_QUESTIONS_PER_TYPE)}
+        </label>
+      ))}
+
+      <button type="submit" className="level-button custom-course-submit" disabled={!canSubmit}>
+        {t.generateCustomCourse}
+      </button>
+    </form>
+  );
+};
+
+export default CustomCourseForm;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Messages, formatMessage } from './i18n';
+import { PathStep } from './learningPath';
+
+interface LearningPathViewProps {
+  steps: PathStep[];
+  t: Messages;
+  disabled: boolean; // While a course is being generated
+  onStart: (index: number) => void; // Generates the course of an unlocked level that has none yet
+  onOpen: (id: string) => void;
+}
+
+const LearningPathView: React.FC<LearningPathViewProps> = ({ steps, t, disabled, onStart, onOpen }) => {
+  const completed = steps.filter(step => step.status === 'completed').length;
+
+  const statusText = (step: PathStep, index: number): string => {
+    switch (step.status) {
+      case 'locked':
+        return formatMessage(t.pathLocked, { level: steps[index - 1]?.level.title ?? '' });
+      case 'available':
+        return t.pathAvailable;
+      case 'in-progress':
+        return t.pathInProgress;
+      case 'completed':
+        return t.pathCompleted;
+    }
+  };
+
+  return (
+    <section className="learning-path" aria-labelledby="learning-path-heading">
+      <div className="learning-path-header">
+        <h3 id="learning-path-heading">{t.learningPath}</h3>
+        <span className="learning-path-progress">{formatMessage(t.pathProgress, { completed, total: steps.length })}</span>
+      </div>
+      <ol className="curriculum-grid">
+        {steps.map((step, index) => (
+          <li key={step.level.topic}>
+            <button
+              className={`level-button path-step path-step-${step.status}`}
+              disabled={disabled || step.status === 'locked'}
+              onClick={() => (step.course ? onOpen(step.course.id) : onStart(index))}
+            >
+              <span className="path-step-number" aria-hidden="true">{step.status === 'locked' ? '🔒' : step.status === 'completed' ? '✓' : index + 1}</span>
+              <span className="path-step-title">{step.level.title}</span>
+              <span className="path-step-status">
+                {statusText(step, index)}
+                {step.bestPercentage !== null && step.status !== 'locked' && ` · ${formatMessage(t.pathBestScore, { percentage: step.bestPercentage })}`}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+};
+
+export default LearningPathView;
@@ -0,0 +1,76 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage } from './interfaces';
+import { Messages } from './i18n';
+import MarkdownContent from './MarkdownContent';
+
+interface LessonTutorProps {
+  lessonIndex: number;
+  messages: ChatMessage[];
+  loading: boolean; // True while the tutor is replying
+  t: Messages;
+  onSend: (lessonIndex: number, text: string) => void;
+}
+
+// Chat panel shown inside each lesson accordion.
+const LessonTutor: React.FC<LessonTutorProps> = ({ lessonIndex, messages, loading, t, onSend }) => {
+  const [draft, setDraft] = useState('');
+  const logRef = useRef<HTMLDivElement>(null);
+  const headingId = `lesson-tutor-heading-${lessonIndex}`;
+
+  useEffect(() => {
+    // Keep the newest message in view
+    if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [messages.length, loading]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || loading) return;
+    onSend(lessonIndex, text);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a new line
+    if (e.key === 'Enter' && !e.shiftKey) handleSubmit(e);
+  };
+
+  return (
+    <div className="lesson-tutor" aria-labelledby={headingId}>
+      <h4 id={headingId}>{t.lessonTutor}</h4>
+      <div className="tutor-log" ref={logRef} role="log" aria-live="polite">
+        {messages.length === 0 && <p className="tutor-intro">{t.tutorIntro}</p>}
+        {messages.map((message, index) => (
+          <div
+            key={index}
+            className={`tutor-message tutor-message-${message.role} ${message.failed ? 'tutor-message-failed' : ''}`}
+          >
+            <span className="tutor-message-author">{message.role === 'learner' ? t.learnerLabel : t.tutorLabel}</span>
+            {message.role === 'tutor' && !message.failed ? <MarkdownContent text={message.text} /> : <p>{message.text}</p>}
+          </div>
+        ))}
+        {loading && (
+          <div className="explanation-loading">
+            <span className="spinner small-spinner"></span> {t.tutorThinking}
+          </div>
+        )}
+      </div>
+      <form className="tutor-form" onSubmit={handleSubmit}>
+        <label htmlFor={`tutor-input-${lessonIndex}`} className="visually-hidden">{t.tutorPlaceholder}</label>
+        <textarea
+          id={`tutor-input-${lessonIndex}`}
+          value={draft}
+          placeholder={t.tutorPlaceholder}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+        ></textarea>
+        <button type="submit" className="submit-answer-button" disabled={loading || draft.trim() === ''}>
+          {t.sendMessage}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LessonTutor;
@@ -0,0 +1,186 @@
+import React, { useContext, useId, useMemo } from 'react';
+import { GlossaryEntry } from './interfaces';
+import { HEADING_OFFSET, MarkdownBlock, MarkdownInline, parseInline, parseMarkdown } from './markdown';
+import { termPattern } from './terminology';
+
+interface MarkdownContentProps {
+  text: string;
+  inline?: boolean; // Only inline formatting, for quiz text, options and one-line summaries
+  className?: string;
+  glossary?: GlossaryEntry[]; // Terms that get a definition tooltip wherever they appear
+}
+
+// A forbidden terminology variant to mark wherever it appears in the text
+export interface TermHighlight {
+  found: string;
+  hint: string; // Tooltip, e.g. which approved term to use instead
+}
+
+export const TermHighlightContext = React.createContext<TermHighlight[]>([]);
+
+type Highlighter = (text: string) => React.ReactNode;
+
+const termKey = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+
+// Wraps every match of the pattern with `wrap` and hands the text in between to `rest`.
+const splitMatches = (
+  text: string,
+  pattern: RegExp,
+  wrap: (match: string, key: number) => React.ReactNode,
+  rest: Highlighter
+): React.ReactNode[] => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    parts.push(<React.Fragment key={`text-${last}`}>{rest(text.slice(last, match.index))}</React.Fragment>);
+    parts.push(wrap(match[0], match.index!));
+    last = match.index! + match[0].length;
+  }
+  parts.push(<React.Fragment key={`text-${last}`}>{rest(text.slice(last))}</React.Fragment>);
+  return parts;
+};
+
+// A glossary term; the definition shows on hover, and on tap or keyboard focus
+const GlossaryTerm: React.FC<{ text: string; entry: GlossaryEntry }> = ({ text, entry }) => {
+  const tooltipId = useId();
+  return (
+    <span
+      className="glossary-term"
+      tabIndex={0}
+      aria-describedby={tooltipId}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') e.currentTarget.blur();
+      }}
+    >
+      {text}
+      <span id={tooltipId} role="tooltip" className="glossary-tooltip">
+        {termKey(entry.english) !== termKey(entry.term) && <span lang="en">{entry.english}: </span>}
+        {entry.definition}
+      </span>
+    </span>
+  );
+};
+
+// Terminology flags take precedence; glossary terms are looked for in the remaining text.
+const createHighlighter = (highlights: TermHighlight[], glossary: GlossaryEntry[]): Highlighter | undefined => {
+  const flagPattern = termPattern(highlights.map(highlight => highlight.found));
+  const glossaryPattern = termPattern(glossary.map(entry => entry.term));
+  if (!flagPattern && !glossaryPattern) return undefined;
+
+  const hints = new Map(highlights.map(highlight => [termKey(highlight.found), highlight.hint]));
+  const entries = new Map(glossary.map(entry => [termKey(entry.term), entry]));
+  const plain: Highlighter = text => text;
+  const withGlossary: Highlighter = glossaryPattern
+    ? text => splitMatches(text, glossaryPattern, (match, key) => <GlossaryTerm key={key} text={match} entry={entries.get(termKey(match))!} />, plain)
+    : plain;
+
+  return flagPattern
+    ? text => splitMatches(text, flagPattern, (match, key) => (
+        <mark key={key} className="term-flag" title={hints.get(termKey(match))}>{match}</mark>
+      ), withGlossary)
+    : withGlossary;
+};
+
+// Renders model-written Markdown as React elements. Nothing is injected as HTML,
+// so the only markup that reaches the page is what the parser produces.
+
+const renderInline = (nodes: MarkdownInline[], highlight?: Highlighter): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{highlight ? highlight(node.text) : node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, highlight)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, highlight)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children, highlight)}</del>;
+      case 'code':
+        return <code key={index}>{node.text}</code>;
+      case 'break':
+        return <br key={index} />;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children, highlight)}
+          </a>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[], highlight?: Highlighter): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${Math.min(6, block.level + HEADING_OFFSET)}` as 'h4' | 'h5' | 'h6';
+        return <Tag key={index}>{renderInline(block.children, highlight)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, highlight)}</p>;
+      case 'code':
+        return (
+          <pre key={index}>
+            <code className={block.language ? `language-${block.language}` : undefined}>{block.text}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return <blockquote key={index}>{renderBlocks(block.children, highlight)}</blockquote>;
+      case 'rule':
+        return <hr key={index} />;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          // Single-paragraph items render without a wrapping <p> so lists stay compact
+          <li key={itemIndex}>
+            {item.length === 1 && item[0].type === 'paragraph' ? renderInline(item[0].children, highlight) : renderBlocks(item, highlight)}
+          </li>
+        ));
+        return block.ordered
+          ? <ol key={index} start={block.start !== 1 ? block.start : undefined}>{items}</ol>
+          : <ul key={index}>{items}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={index} className="markdown-table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th key={column} style={block.align[column] ? { textAlign: block.align[column]! } : undefined}>
+                      {renderInline(cell, highlight)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td key={column} style={block.align[column] ? { textAlign: block.align[column]! } : undefined}>
+                        {renderInline(cell, highlight)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+
+const NO_GLOSSARY: GlossaryEntry[] = [];
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, inline = false, className, glossary = NO_GLOSSARY }) => {
+  const highlights = useContext(TermHighlightContext);
+  const highlight = useMemo(() => createHighlighter(highlights, glossary), [highlights, glossary]);
+  const content = useMemo(
+    () => (inline ? renderInline(parseInline(text), highlight) : renderBlocks(parseMarkdown(text), highlight)),
+    [text, inline, highlight]
+  );
+
+  return inline
+    ? <span className={className}>{content}</span>
+    : <div className={`markdown-content ${className ?? ''}`.trim()}>{content}</div>;
+};
+
+export default MarkdownContent;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { LearnerProfile } from './interfaces';
+import { Messages, formatMessage } from './i18n';
+import { checkPin, isValidPin, profileDisplayName } from './profiles';
+
+interface ProfilePickerProps {
+  profiles: LearnerProfile[];
+  t: Messages;
+  onSelect: (id: string) => void; // Called once the profile's PIN, if it has one, was entered
+  onCreate: (name: string, pin: string) => Promise<void>;
+  onExportResults: (format: 'json' | 'csv') => void;
+}
+
+// "Who is learning?" screen of a shared device: pick a profile, unlock it with its PIN or add one.
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, t, onSelect, onCreate, onExportResults }) => {
+  const [unlocking, setUnlocking] = useState<LearnerProfile | null>(null);
+  const [pin, setPin] = useState('');
+  const [wrongPin, setWrongPin] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const handleChoose = (profile: LearnerProfile) => {
+    if (profile.pinHash === undefined) {
+      onSelect(profile.id);
+      return;
+    }
+    setUnlocking(profile);
+    setPin('');
+    setWrongPin(false);
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!unlocking) return;
+    if (await checkPin(unlocking, pin)) {
+      onSelect(unlocking.id);
+    } else {
+      setWrongPin(true);
+      setPin('');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    if (newPin && !isValidPin(newPin)) {
+      setCreateError(t.pinInvalid);
+      return;
+    }
+    if (newPin !== confirmPin) {
+      setCreateError(t.pinMismatch);
+      return;
+    }
+    try {
+      await onCreate(newName, newPin);
+    } catch (err) {
+      console.error('Failed to create learner profile:', err);
+      setCreateError(t.profileCreateError);
+    }
+  };
+
+  return (
+    <section className="profile-picker" aria-labelledby="profile-picker-heading">
+      <h2 id="profile-picker-heading">{t.whoIsLearning}</h2>
+      <ul className="profile-list">
+        {profiles.map(profile => (
+          <li key={profile.id}>
+            <button
+              type="button"
+              className={`profile-button ${unlocking?.id === profile.id ? 'active' : ''}`}
+              onClick={() => handleChoose(profile)}
+            >
+              <span className="profile-avatar" aria-hidden="true">{profile.pinHash !== undefined ? '🔒' : '👤'}</span>
+              {profileDisplayName(profile, t)}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {unlocking && (
+        <form className="profile-form" onSubmit={handleUnlock}>
+          <label htmlFor="profile-pin">{formatMessage(t.enterPin, { name: profileDisplayName(unlocking, t) })}</label>
+          <input
+            id="profile-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={pin}
+            maxLength={8}
+            autoFocus
+            onChange={(e) => { setPin(e.target.value); setWrongPin(false); }}
+          />
+          {wrongPin && <p role="status" className="incorrect-message">{t.wrongPin}</p>}
+          <div className="profile-form-actions">
+            <button type="submit" className="confirm-button" disabled={!pin}>{t.unlockProfile}</button>
+            <button type="button" className="cancel-button" onClick={() => setUnlocking(null)}>{t.cancel}</button>
+          </div>
+        </form>
+      )}
+
+      {adding ? (
+        <form className="profile-form" onSubmit={handleCreate}>
+          <label htmlFor="profile-name">{t.learnerNameLabel}</label>
+          <input
+            id="profile-name"
+            type="text"
+            value={newName}
+            maxLength={40}
+            required
+            autoFocus
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <label htmlFor="profile-new-pin">{t.pinOptionalLabel}</label>
+          <input
+            id="profile-new-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            value={newPin}
+            maxLength={8}
+            onChange={(e) => { setNewPin(e.target.value); setCreateError(null); }}
+          />
+          {newPin && (
+            <>
+              <label htmlFor="profile-confirm-pin">{t.confirmPinLabel}</label>
+              <input
+                id="profile-confirm-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                value={confirmPin}
+                maxLength={8}
+                onChange={(e) => { setConfirmPin(e.target.value); setCreateError(null); }}
+              />
+            </>
+          )}
+          {createError && <p role="status" className="incorrect-message">{createError}</p>}
+          <div className="profile-form-actions">
+            <button type="submit" className="confirm-button" disabled={!newName.trim()}>{t.addLearner}</button>
+            <button type="button" className="cancel-button" onClick={() => setAdding(false)}>{t.cancel}</button>
+          </div>
+        </form>
+      ) : (
+        <button type="button" className="profile-add-button" onClick={() => { setAdding(true); setUnlocking(null); }}>
+          + {t.addLearner}
+        </button>
+      )}
+
+      <div className="profile-supervisor">
+        <h3>{t.supervisorExport}</h3>
+        <p>{t.supervisorExportIntro}</p>
+        <div className="profile-form-actions">
+          <button type="button" onClick={() => onExportResults('csv')}>{t.exportResultsCsv}</button>
+          <button type="button" onClick={() => onExportResults('json')}>{t.exportResultsJson}</button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ProfilePicker;
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { SavedCourse } from './interfaces';
+import { Messages, formatMessage } from './i18n';
+import { downloadFile } from './download';
+import { buildProgressExport, hasProgress, localDay, studyStreak, summarizeCourse, weakestTopics } from './progress';
+
+interface ProgressDashboardProps {
+  courses: SavedCourse[];
+  t: Messages;
+  onOpen: (id: string) => void;
+}
+
+const readingMinutes = (readingMs: number) => Math.round(readingMs / 60000);
+
+// Collapsible overview of the learner's reading and Knowledge Check results across the library.
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ courses, t, onOpen }) => {
+  const summaries = useMemo(() => courses.map(summarizeCourse), [courses]);
+  const streak = useMemo(() => studyStreak(courses), [courses]);
+  const weakTopics = useMemo(() => weakestTopics(courses), [courses]);
+  const started = summaries.filter(summary => summary.completion > 0 || summary.readingMs > 0 || summary.bestPercentage !== null);
+
+  const handleExport = () => {
+    downloadFile(buildProgressExport(courses), `geeddi-progress-${localDay(Date.now())}.json`, 'application/json');
+  };
+
+  return (
+    <details className="progress-dashboard">
+      <summary>{t.progressDashboard}</summary>
+      <p className="progress-intro">{t.progressIntro}</p>
+      {!hasProgress(courses) ? (
+        <p className="progress-empty">{t.progressEmpty}</p>
+      ) : (
+        <>
+          <dl className="progress-stats">
+            <div>
+              <dt>{t.currentStreak}</dt>
+              <dd>{t.dayCount(streak.current)}</dd>
+            </div>
+            <div>
+              <dt>{t.longestStreak}</dt>
+              <dd>{t.dayCount(streak.longest)}</dd>
+            </div>
+            <div>
+              <dt>{t.lessonsCompletedStat}</dt>
+              <dd>{summaries.reduce((sum, summary) => sum + summary.lessonsCompleted, 0)}</dd>
+            </div>
+            <div>
+              <dt>{t.readingTimeStat}</dt>
+              <dd>{formatMessage(t.readingMinutes, { minutes: readingMinutes(summaries.reduce((sum, summary) => sum + summary.readingMs, 0)) })}</dd>
+            </div>
+            <div>
+              <dt>{t.quizzesPassedStat}</dt>
+              <dd>{summaries.filter(summary => summary.passed).length}</dd>
+            </div>
+          </dl>
+
+          <h4>{t.courseProgressHeading}</h4>
+          <ul className="progress-course-list">
+            {started.map(summary => (
+              <li key={summary.saved.id}>
+                <button type="button" className="progress-course-name" onClick={() => onOpen(summary.saved.id)}>
+                  {summary.saved.name}
+                </button>
+                <progress max={100} value={summary.completion} aria-label={formatMessage(t.courseCompletion, { percentage: summary.completion })} />
+                <span className="progress-course-details">
+                  {formatMessage(t.courseCompletion, { percentage: summary.completion })}
+                  {' · '}
+                  {formatMessage(t.lessonsCompletedCount, { completed: summary.lessonsCompleted, total: summary.lessonCount })}
+                  {' · '}
+                  {formatMessage(t.readingMinutes, { minutes: readingMinutes(summary.readingMs) })}
+                  {summary.bestPercentage !== null && ` · ${formatMessage(t.pathBestScore, { percentage: summary.bestPercentage })}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <h4>{t.weakestTopics}</h4>
+          {weakTopics.length === 0 ? (
+            <p className="progress-empty">{t.noWeakTopics}</p>
+          ) : (
+            <ol className="progress-weak-topics">
+              {weakTopics.map(topic => (
+                <li key={`${topic.saved.id}-${topic.lessonIndex}`}>
+                  <button type="button" className="progress-course-name" onClick={() => onOpen(topic.saved.id)}>
+                    {topic.title}
+                  </button>
+                  <span className="progress-course-details">
+                    {topic.lessonIndex !== null && `${topic.saved.name} · `}
+                    {formatMessage(t.weakTopicScore, { percentage: topic.percentage })}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </>
+      )}
+      <div className="progress-actions">
+        <button type="button" onClick={handleExport}>{t.exportProgress}</button>
+      </div>
+    </details>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,34 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode, qrPathData, qrViewBoxSize, QrErrorCorrection } from './qrCode';
+
+interface QrCodeImageProps {
+  value: string; // Text or link to encode
+  label: string; // Accessible description of where the code leads
+  errorCorrection?: QrErrorCorrection;
+  className?: string;
+}
+
+const DEFAULT_ERROR_CORRECTION: QrErrorCorrection = 'M';
+
+const QrCodeImage: React.FC<QrCodeImageProps> = ({ value, label, errorCorrection = DEFAULT_ERROR_CORRECTION, className = 'qr-code-img' }) => {
+  const code = useMemo(() => {
+    try {
+      return encodeQrCode(value, errorCorrection);
+    } catch (err) {
+      console.error('Failed to encode QR code:', err);
+      return null;
+    }
+  }, [value, errorCorrection]);
+
+  if (!code) return null;
+  const side = qrViewBoxSize(code);
+
+  return (
+    <svg className={className} viewBox={`0 0 ${side} ${side}`} xmlns="http://www.w3.org/2000/svg" role="img" aria-label={label} shapeRendering="crispEdges">
+      <rect x="0" y="0" width={side} height={side} fill="white"/>
+      <path fill="#000000" d={qrPathData(code)}/>
+    </svg>
+  );
+};
+
+export default QrCodeImage;
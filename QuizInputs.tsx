@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { QuizItem, QuizResponse } from './interfaces';
+import { Messages } from './i18n';
+import { normalizeAnswer } from './quizScoring';
+import MarkdownContent from './MarkdownContent';
+import { markdownToPlainText } from './markdown';
+
+// Answer inputs for the question types that need more than a single click:
+// multi-select, fill-in-the-blank, ordering, matching and short-answer. Multiple-choice and
+// true/false questions are rendered directly by CourseDisplay.
+
+interface QuizResponseInputProps {
+  item: QuizItem;
+  t: Messages;
+  response: QuizResponse | null; // The submitted answer, null until the learner submits
+  disabled: boolean;
+  onSubmit: (response: QuizResponse) => void;
+}
+
+const asList = (response: QuizResponse | null): string[] =>
+  response === null ? [] : Array.isArray(response) ? response : [response];
+
+const MultiSelectInput: React.FC<QuizResponseInputProps> = ({ item, t, response, disabled, onSubmit }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const submitted = response !== null;
+  const correct = item.correctAnswers ?? [];
+
+  useEffect(() => {
+    if (response === null) setSelected([]); // A retake clears the previous selection
+  }, [response]);
+
+  const toggle = (option: string) => {
+    setSelected(prev => (prev.includes(option) ? prev.filter(o => o !== option) : [...prev, option]));
+  };
+
+  const chosen = submitted ? asList(response) : selected;
+
+  return (
+    <>
+      <p className="quiz-instructions">{t.selectAllThatApply}</p>
+      <div className="quiz-options">
+        {item.options.map((option, oIndex) => {
+          const isChosen = chosen.includes(option);
+          let buttonClass = isChosen ? 'selected-option' : '';
+          if (submitted) {
+            if (isChosen) buttonClass = correct.includes(option) ? 'correct-feedback' : 'incorrect-feedback';
+            else if (correct.includes(option)) buttonClass = 'correct-answer-reveal';
+          }
+          return (
+            <button
+              key={oIndex}
+              className={buttonClass}
+              onClick={() => toggle(option)}
+              disabled={submitted || disabled}
+              aria-pressed={isChosen}
+            >
+              {isChosen ? '☑' : '☐'} <MarkdownContent text={option} inline />
+            </button>
+          );
+        })}
+      </div>
+      {!submitted && (
+        <button className="submit-answer-button" onClick={() => onSubmit(selected)} disabled={disabled || selected.length === 0}>
+          {t.submitAnswer}
+        </button>
+      )}
+    </>
+  );
+};
+
+const FillInTheBlankInput: React.FC<QuizResponseInputProps> = ({ item, t, response, disabled, onSubmit }) => {
+  const [text, setText] = useState('');
+  const submitted = response !== null;
+
+  useEffect(() => {
+    if (response === null) setText('');
+  }, [response]);
+
+  const accepted = [item.correctAnswer, ...(item.acceptedAnswers ?? [])].map(normalizeAnswer);
+  const value = submitted ? asList(response)[0] ?? '' : text;
+  const inputClass = submitted ? (accepted.includes(normalizeAnswer(value)) ? 'correct-feedback' : 'incorrect-feedback') : '';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (text.trim() && !disabled) onSubmit(text.trim());
+  };
+
+  return (
+    <form className="fill-blank-form" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        className={inputClass}
+        value={value}
+        placeholder={t.typeYourAnswer}
+        aria-label={t.typeYourAnswer}
+        onChange={(e) => setText(e.target.value)}
+        disabled={submitted || disabled}
+      />
+      {!submitted && (
+        <button type="submit" className="submit-answer-button" disabled={disabled || text.trim() === ''}>
+          {t.submitAnswer}
+        </button>
+      )}
+    </form>
+  );
+};
+
+const OrderingInput: React.FC<QuizResponseInputProps> = ({ item, t, response, disabled, onSubmit }) => {
+  const [order, setOrder] = useState<string[]>(item.options);
+  const submitted = response !== null;
+  const expected = item.correctOrder ?? [];
+
+  useEffect(() => {
+    if (response === null) setOrder(item.options);
+  }, [response, item.options]);
+
+  const move = (index: number, offset: number) => {
+    setOrder(prev => {
+      const next = [...prev];
+      const target = index + offset;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const shown = submitted ? asList(response) : order;
+
+  return (
+    <>
+      <p className="quiz-instructions">{t.arrangeInOrder}</p>
+      <ol className="ordering-list">
+        {shown.map((step, index) => {
+          const rowClass = submitted ? (expected[index] === step ? 'correct-feedback' : 'incorrect-feedback') : '';
+          return (
+            <li key={step} className={`ordering-item ${rowClass}`}>
+              <MarkdownContent className="ordering-text" text={step} inline />
+              {!submitted && (
+                <span className="ordering-controls">
+                  <button onClick={() => move(index, -1)} disabled={disabled || index === 0} aria-label={`${t.moveUp}: ${markdownToPlainText(step)}`}>↑</button>
+                  <button onClick={() => move(index, 1)} disabled={disabled || index === shown.length - 1} aria-label={`${t.moveDown}: ${markdownToPlainText(step)}`}>↓</button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {!submitted && (
+        <button className="submit-answer-button" onClick={() => onSubmit(order)} disabled={disabled}>
+          {t.submitAnswer}
+        </button>
+      )}
+    </>
+  );
+};
+
+const MatchingInput: React.FC<QuizResponseInputProps> = ({ item, t, response, disabled, onSubmit }) => {
+  const pairs = item.matchingPairs ?? [];
+  const pairCount = pairs.length;
+  const [choices, setChoices] = useState<string[]>(() => new Array(pairCount).fill(''));
+  const submitted = response !== null;
+
+  useEffect(() => {
+    if (response === null) setChoices(new Array(pairCount).fill(''));
+  }, [response, pairCount]);
+
+  const choose = (index: number, value: string) => {
+    setChoices(prev => prev.map((choice, i) => (i === index ? value : choice)));
+  };
+
+  const shown = submitted ? asList(response) : choices;
+
+  return (
+    <>
+      <p className="quiz-instructions">{t.matchEachItem}</p>
+      <div className="matching-list">
+        {pairs.map((pair, index) => {
+          const rowClass = submitted ? (shown[index] === pair.right ? 'correct-feedback' : 'incorrect-feedback') : '';
+          return (
+            <label key={pair.left} className={`matching-row ${rowClass}`}>
+              <MarkdownContent className="matching-left" text={pair.left} inline />
+              <select
+                value={shown[index] ?? ''}
+                onChange={(e) => choose(index, e.target.value)}
+                disabled={submitted || disabled}
+              >
+                <option value="" disabled>{t.chooseMatch}</option>
+                {item.options.map(option => (
+                  <option key={option} value={option}>{markdownToPlainText(option)}</option>
+                ))}
+              </select>
+            </label>
+          );
+        })}
+      </div>
+      {!submitted && (
+        <button
+          className="submit-answer-button"
+          onClick={() => onSubmit(choices)}
+          disabled={disabled || choices.some(choice => choice === '')}
+        >
+          {t.submitAnswer}
+        </button>
+      )}
+    </>
+  );
+};
+
+const ShortAnswerInput: React.FC<QuizResponseInputProps> = ({ t, response, disabled, onSubmit }) => {
+  const [text, setText] = useState('');
+  const submitted = response !== null;
+
+  useEffect(() => {
+    if (response === null) setText('');
+  }, [response]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (text.trim() && !disabled) onSubmit(text.trim());
+  };
+
+  return (
+    <form className="short-answer-form" onSubmit={handleSubmit}>
+      <textarea
+        value={submitted ? asList(response)[0] ?? '' : text}
+        placeholder={t.writeYourAnswer}
+        aria-label={t.writeYourAnswer}
+        onChange={(e) => setText(e.target.value)}
+        disabled={submitted || disabled}
+        rows={3}
+      ></textarea>
+      {!submitted && (
+        <button type="submit" className="submit-answer-button" disabled={disabled || text.trim() === ''}>
+          {t.submitAnswer}
+        </button>
+      )}
+    </form>
+  );
+};
+
+export const QuizResponseInput: React.FC<QuizResponseInputProps> = (props) => {
+  switch (props.item.type) {
+    case 'multi-select':
+      return <MultiSelectInput {...props} />;
+    case 'fill-in-the-blank':
+      return <FillInTheBlankInput {...props} />;
+    case 'ordering':
+      return <OrderingInput {...props} />;
+    case 'matching':
+      return <MatchingInput {...props} />;
+    case 'short-answer':
+      return <ShortAnswerInput {...props} />;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Messages, formatMessage } from './i18n';
+import QrCodeImage from './QrCodeImage';
+
+interface ShareDialogProps {
+  links: string[]; // One link, or the parts of a course too long for one
+  title: string; // Course title, offered to the system share sheet
+  t: Messages;
+  onClose: () => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ links, title, t, onClose }) => {
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [qrIndex, setQrIndex] = useState<number | null>(null); // Link whose QR code is shown
+  const canShare = typeof navigator.share === 'function';
+
+  const copyLink = async (link: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopiedIndex(index);
+    } catch (err) {
+      console.error('Failed to copy share link:', err);
+    }
+  };
+
+  const shareLink = async (link: string) => {
+    try {
+      await navigator.share({ title, url: link });
+    } catch (err) {
+      // Closing the share sheet rejects as well
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Failed to share link:', err);
+      }
+    }
+  };
+
+  return (
+    <div className="download-dialog-overlay" role="dialog" aria-modal="true" aria-labelledby="share-dialog-title">
+      <div className="download-dialog share-dialog">
+        <h4 id="share-dialog-title">{t.shareCourse}</h4>
+        <p className="share-intro">
+          {links.length === 1 ? t.shareLinkIntro : formatMessage(t.shareLinksIntro, { count: links.length })}
+        </p>
+        <ol className="share-link-list">
+          {links.map((link, index) => (
+            <li key={link} className="share-link-item">
+              {links.length > 1 && (
+                <span className="share-link-label">
+                  {formatMessage(t.shareLinkPart, { part: index + 1, total: links.length })}
+                </span>
+              )}
+              <input
+                type="text"
+                readOnly
+                value={link}
+                dir="ltr"
+                aria-label={t.shareCourse}
+                onFocus={e => e.target.select()}
+              />
+              <div className="share-link-actions">
+                <button type="button" onClick={() => copyLink(link, index)}>
+                  {copiedIndex === index ? t.linkCopied : t.copyLink}
+                </button>
+                <a href={`https://wa.me/?text=${encodeURIComponent(link)}`} target="_blank" rel="noopener noreferrer">
+                  {t.shareViaWhatsApp}
+                </a>
+                {canShare && (
+                  <button type="button" onClick={() => shareLink(link)}>{t.shareLinkOther}</button>
+                )}
+                <button type="button" aria-expanded={qrIndex === index} onClick={() => setQrIndex(qrIndex === index ? null : index)}>
+                  {qrIndex === index ? t.hideQrCode : t.showQrCode}
+                </button>
+              </div>
+              {qrIndex === index && (
+                // Share links are long, so the lowest level keeps the modules as large as possible
+                <QrCodeImage value={link} errorCorrection="L" label={t.shareQrCodeDescription} className="qr-code-img share-qr-code" />
+              )}
+            </li>
+          ))}
+        </ol>
+        <div className="download-dialog-actions">
+          <button className="cancel-button" onClick={onClose}>
+            {t.closeModal}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { TermEntry } from './interfaces';
+import { LOCALES, LocaleCode, Messages, formatMessage } from './i18n';
+import { downloadFile } from './download';
+import { createTermEntry, exportTerminologyCsv, exportTerminologyJson, mergeTerminology, parseTerminology } from './terminology';
+
+interface TerminologyEditorProps {
+  terms: TermEntry[];
+  language: LocaleCode; // Locale whose approved terms and forbidden variants are edited
+  t: Messages;
+  onChange: (terms: TermEntry[]) => void;
+}
+
+// Collapsible editor for the terminology base, shown under the course library.
+const TerminologyEditor: React.FC<TerminologyEditorProps> = ({ terms, language, t, onChange }) => {
+  const [revision, setRevision] = useState(0); // Bumped on every import
+  const [importMessage, setImportMessage] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const languageName = LOCALES[language].nativeName;
+
+  const updateEntry = (id: string, change: (entry: TermEntry) => TermEntry) => {
+    onChange(terms.map(entry => (entry.id === id ? change(entry) : entry)));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const imported = parseTerminology(await file.text());
+      onChange(mergeTerminology(terms, imported));
+      setRevision(prev => prev + 1);
+      setImportMessage({ kind: 'success', text: t.terminologyImported(imported.length) });
+    } catch (err) {
+      console.error('Failed to import terminology:', err);
+      setImportMessage({ kind: 'error', text: `${t.terminologyImportError} ${err instanceof Error ? err.message : ''}`.trim() });
+    }
+  };
+
+  return (
+    <details className="terminology-editor">
+      <summary>{t.terminology}</summary>
+      <p className="terminology-intro">{formatMessage(t.terminologyIntro, { language: languageName })}</p>
+
+      {terms.length > 0 && (
+        <div className="terminology-rows">
+          <div className="terminology-row terminology-row-heading" aria-hidden="true">
+            <span>{t.termSource}</span>
+            <span>{formatMessage(t.termApproved, { language: languageName })}</span>
+            <span>{t.termForbidden}</span>
+            <span></span>
+          </div>
+          {terms.map(entry => (
+            // Keyed by language and import revision, so the uncontrolled fields reload when either changes
+            <div key={`${entry.id}-${language}-${revision}`} className="terminology-row">
+              <input
+                type="text"
+                defaultValue={entry.source}
+                aria-label={t.termSource}
+                onBlur={(e) => updateEntry(entry.id, current => ({ ...current, source: e.target.value.trim() }))}
+              />
+              <input
+                type="text"
+                defaultValue={entry.renderings[language] ?? ''}
+                lang={language}
+                dir={LOCALES[language].direction}
+                aria-label={formatMessage(t.termApproved, { language: languageName })}
+                onBlur={(e) => updateEntry(entry.id, current => ({
+                  ...current,
+                  renderings: { ...current.renderings, [language]: e.target.value.trim() || undefined },
+                }))}
+              />
+              <input
+                type="text"
+                defaultValue={(entry.forbidden[language] ?? []).join(', ')}
+                lang={language}
+                dir={LOCALES[language].direction}
+                aria-label={t.termForbidden}
+                onBlur={(e) => updateEntry(entry.id, current => ({
+                  ...current,
+                  forbidden: {
+                    ...current.forbidden,
+                    [language]: e.target.value.split(',').map(variant => variant.trim()).filter(variant => variant !== ''),
+                  },
+                }))}
+              />
+              <button
+                type="button"
+                className="library-delete-button"
+                onClick={() => onChange(terms.filter(current => current.id !== entry.id))}
+              >
+                {t.removeTerm}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="terminology-actions">
+        <button type="button" onClick={() => onChange([...terms, createTermEntry()])}>{t.addTerm}</button>
+        <button type="button" onClick={() => fileInputRef.current?.click()}>{t.importTerminology}</button>
+        <button type="button" onClick={() => downloadFile(exportTerminologyJson(terms), 'geeddi-terminology.json', 'application/json')}>
+          {t.exportTerminologyJson}
+        </button>
+        <button type="button" onClick={() => downloadFile(exportTerminologyCsv(terms), 'geeddi-terminology.csv', 'text/csv;charset=utf-8')}>
+          {t.exportTerminologyCsv}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="visually-hidden"
+          tabIndex={-1}
+          aria-hidden="true"
+          onChange={handleImport}
+        />
+      </div>
+      {importMessage && (
+        <p role="status" className={`terminology-message ${importMessage.kind === 'error' ? 'incorrect-message' : 'correct-message'}`}>
+          {importMessage.text}
+        </p>
+      )}
+    </details>
+  );
+};
+
+export default TerminologyEditor;
@@ -0,0 +1,64 @@
+import { Schema, Type } from "@google/genai";
+import { AnswerGrade, QuizItem } from './interfaces';
+import type { LocaleCode } from './i18n';
+
+// Prompt, response schema and result parsing for grading 'short-answer'
+// responses against the rubric generated with the course.
+
+export const buildGradingPrompt = (
+  item: QuizItem,
+  response: string,
+  language: LocaleCode,
+  languageName: string
+): string => {
+  const rubric = (item.rubric ?? []).map((point, index) => `${index + 1}. ${point}`).join('\n');
+  const languageGuidance = language === 'so'
+    ? `The question and the learner's response are in Somali. Judge the meaning, not the spelling: accept regional spellings, missing or extra apostrophes and doubled vowels (for example "su'aal"/"suaal", "waa"/"wa"), and common English loanwords.`
+    : `Judge the meaning, not the spelling or grammar.`;
+
+  return `You are grading a learner's answer to a short-answer quiz question.
+      Question: "${item.question}"
+      Model answer: "${item.correctAnswer}"
+      Rubric (key points a complete answer covers):
+      ${rubric}
+      Learner's response: "${response}"
+      ${languageGuidance}
+      Give a score from 0 to 100 for the share of rubric points the response covers correctly. Do not reward points that are stated incorrectly.
+      List what the response got right in "correctPoints" and the rubric points it missed or got wrong in "missingPoints".
+      Write one or two encouraging sentences of "feedback" addressed to the learner.
+      All text in the JSON response MUST be in the ${languageName} language.
+      `;
+};
+
+export const GRADING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.INTEGER, description: 'Score from 0 to 100.' },
+    correctPoints: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'What the response got right.' },
+    missingPoints: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Rubric points that were missed or wrong.' },
+    feedback: { type: Type.STRING, description: 'Brief feedback for the learner.' }
+  },
+  required: ["score", "correctPoints", "missingPoints", "feedback"],
+  propertyOrdering: ["score", "correctPoints", "missingPoints", "feedback"]
+};
+
+const readPoints = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((point): point is string => typeof point === 'string' && point.trim() !== '').map(point => point.trim())
+    : [];
+
+// Parses the model's JSON grade, clamping the score into range. Throws when the
+// text is not a grade at all so the caller can report a grading failure.
+export const parseAnswerGrade = (text: string): AnswerGrade => {
+  const parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  const score = Number(parsed?.score);
+  if (!Number.isFinite(score)) {
+    throw new Error('Grading response has no numeric score.');
+  }
+  return {
+    score: Math.min(100, Math.max(0, Math.round(score))),
+    correctPoints: readPoints(parsed.correctPoints),
+    missingPoints: readPoints(parsed.missingPoints),
+    feedback: typeof parsed.feedback === 'string' ? parsed.feedback.trim() : '',
+  };
+};
@@ -0,0 +1,20 @@
+// Address behind the "Get the app" QR code. APP_INSTALL_URL (see vite.config.ts) wins;
+// otherwise it is the web app manifest's start_url, resolved against the manifest.
+export const resolveAppInstallUrl = async (): Promise<string> => {
+  const configured = process.env.APP_INSTALL_URL;
+  if (configured) return configured;
+
+  const manifestLink = document.querySelector<HTMLLinkElement>('link[rel="manifest"]');
+  if (manifestLink) {
+    try {
+      const response = await fetch(manifestLink.href);
+      const manifest = await response.json() as { start_url?: unknown };
+      if (typeof manifest.start_url === 'string') {
+        return new URL(manifest.start_url, response.url || manifestLink.href).href;
+      }
+    } catch (err) {
+      console.error('Failed to read the app manifest:', err);
+    }
+  }
+  return new URL('/', window.location.href).href;
+};
@@ -0,0 +1,26 @@
+import { Course } from './interfaces';
+import { splitMarkdownBlocks } from './markdown';
+
+// Pairing of a course's Somali and English versions for the side-by-side reading
+// mode and its download. Translations keep the source structure (see
+// courseTranslation.ts), so sections line up by position.
+
+export type BilingualVersions = Record<'so' | 'en', Course>;
+
+export interface BilingualPair {
+  so: string;
+  en: string;
+}
+
+// Pairs list entries by position; an entry missing on one side is left empty.
+export const pairByPosition = (so: string[], en: string[]): BilingualPair[] =>
+  Array.from({ length: Math.max(so.length, en.length) }, (_, index) => ({ so: so[index] ?? '', en: en[index] ?? '' }));
+
+// Pairs Markdown paragraph by paragraph when both sides have the same number of blocks.
+// Otherwise the text stays whole, since pairing mismatched blocks would put unrelated
+// paragraphs next to each other.
+export const pairMarkdownBlocks = (so: string, en: string): BilingualPair[] => {
+  const soBlocks = splitMarkdownBlocks(so);
+  const enBlocks = splitMarkdownBlocks(en);
+  return soBlocks.length === enBlocks.length ? pairByPosition(soBlocks, enBlocks) : [{ so, en }];
+};
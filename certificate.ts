@@ -0,0 +1,164 @@
+import { Course } from './interfaces';
+import { isLocaleCode, LocaleCode, LOCALES } from './i18n';
+import { fromBase64Url, toBase64Url } from './base64url';
+
+// Completion certificates and their verification codes. A code carries the
+// certificate's details and an ECDSA P-256 signature over them. The private key stays
+// with a signing service (CERTIFICATE_SIGNING_URL, see vite.config.ts); the app only
+// holds the public key (CERTIFICATE_PUBLIC_KEY), so it can check codes offline but
+// cannot make them. Without both, certificates are issued without a code.
+//
+// Code: GC2.<payload>.<signature>, both base64url; the payload is the certificate as JSON.
+
+const CODE_PREFIX = 'GC2';
+const CODE_PATTERN = /GC2\.[\w-]+\.[\w-]+/;
+const VERIFY_FRAGMENT_PREFIX = '#verify=';
+const PUBLIC_KEY = process.env.CERTIFICATE_PUBLIC_KEY;
+const SIGNING_URL = process.env.CERTIFICATE_SIGNING_URL;
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+
+export const canVerifyCertificates = Boolean(PUBLIC_KEY);
+// The public key is needed too, so a misconfigured service is noticed before its code is printed
+export const canIssueCertificateCodes = Boolean(PUBLIC_KEY && SIGNING_URL);
+
+export interface Certificate {
+  name: string; // Learner's name as entered when the certificate was issued
+  courseTitle: string;
+  level: string | null; // Title of the predefined course level, when the course is one
+  percentage: number; // Knowledge Check score
+  completedAt: number; // Epoch milliseconds of the passing attempt
+  courseHash: string; // Start of the SHA-256 of the course, in hex
+  language: LocaleCode; // Language of the course and of the certificate
+}
+
+export type CertificateCheck =
+  | { status: 'valid'; certificate: Certificate }
+  | { status: 'invalid' } // A certificate code whose details were changed or that the signing service did not sign
+  | { status: 'malformed' }; // Not a certificate code at all
+
+// Short keys keep the code, and so its QR code, small
+interface CertificatePayload {
+  n: string;
+  t: string;
+  l: string | null;
+  s: number;
+  d: number;
+  h: string;
+  g: string;
+}
+
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// The public key as base64 SPKI, with or without the PEM armour
+const verificationKey = () => {
+  if (!PUBLIC_KEY) throw new Error('CERTIFICATE_PUBLIC_KEY is not set');
+  const spki = Uint8Array.from(atob(PUBLIC_KEY.replace(/-----[^-]+-----|\s/g, '')), char => char.charCodeAt(0));
+  return crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+};
+
+const verifySignature = async (signature: Uint8Array, payloadBytes: Uint8Array): Promise<boolean> =>
+  crypto.subtle.verify(SIGNATURE_ALGORITHM, await verificationKey(), signature, payloadBytes);
+
+// The service is sent the payload and answers with its signature (raw r‖s, as Web Crypto
+// makes it), both base64url: POST {"payload": "…"} → {"signature": "…"}. The request carries
+// the browser's credentials, so the service can sign only for learners it knows.
+const requestSignature = async (payload: string): Promise<string> => {
+  if (!SIGNING_URL) throw new Error('CERTIFICATE_SIGNING_URL is not set');
+  const response = await fetch(SIGNING_URL, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ payload }),
+  });
+  if (!response.ok) {
+    throw new Error(`Certificate signing service responded with ${response.status} ${response.statusText}`);
+  }
+  const { signature } = await response.json();
+  if (typeof signature !== 'string') throw new Error('Certificate signing service returned no signature');
+  return signature;
+};
+
+// The level a course was generated for, when it came from one of the home screen's level buttons
+export const courseLevelTitle = (topic: string, language: LocaleCode): string | null =>
+  LOCALES[language].courseLevels.find(level => level.topic === topic)?.title ?? null;
+
+// Identifies the course content a certificate was earned on
+export const courseFingerprint = async (course: Course): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(course)))).slice(0, 32);
+
+export const issueCertificateCode = async (certificate: Certificate): Promise<string> => {
+  const payload: CertificatePayload = {
+    n: certificate.name,
+    t: certificate.courseTitle,
+    l: certificate.level,
+    s: certificate.percentage,
+    d: certificate.completedAt,
+    h: certificate.courseHash,
+    g: certificate.language,
+  };
+  const payloadBytes = new TextEncoder().encode(JSON.stringify(payload));
+  const payloadText = toBase64Url(payloadBytes);
+  const signature = await requestSignature(payloadText);
+  if (!await verifySignature(fromBase64Url(signature), payloadBytes)) {
+    throw new Error('Certificate signing service returned a signature that does not match CERTIFICATE_PUBLIC_KEY');
+  }
+  return `${CODE_PREFIX}.${payloadText}.${signature}`;
+};
+
+// Short form of a code, printed on the certificate for reference
+export const certificateId = (code: string): string =>
+  toHex(fromBase64Url(code.split('.')[2] ?? '').slice(0, 6).buffer).toUpperCase().replace(/(.{4})(?=.)/g, '$1-');
+
+export const certificateVerifyLink = (code: string, baseUrl: string): string => `${baseUrl}${VERIFY_FRAGMENT_PREFIX}${code}`;
+
+export const isVerifyFragment = (hash: string): boolean => hash.startsWith(VERIFY_FRAGMENT_PREFIX);
+
+const toCertificate = (value: unknown): Certificate | null => {
+  if (!value || typeof value !== 'object') return null;
+  const payload = value as Partial<CertificatePayload>;
+  if (
+    typeof payload.n !== 'string'
+    || typeof payload.t !== 'string'
+    || (payload.l !== null && typeof payload.l !== 'string')
+    || typeof payload.s !== 'number'
+    || typeof payload.d !== 'number'
+    || typeof payload.h !== 'string'
+    || !isLocaleCode(payload.g)
+  ) {
+    return null;
+  }
+  return {
+    name: payload.n,
+    courseTitle: payload.t,
+    level: payload.l ?? null,
+    percentage: payload.s,
+    completedAt: payload.d,
+    courseHash: payload.h,
+    language: payload.g,
+  };
+};
+
+// Accepts a code on its own, a verification link holding one, or text around either
+export const verifyCertificateCode = async (input: string): Promise<CertificateCheck> => {
+  const match = input.match(CODE_PATTERN);
+  if (!match) return { status: 'malformed' };
+  const [, payloadText, signatureText] = match[0].split('.');
+
+  let payloadBytes: Uint8Array;
+  let certificate: Certificate | null;
+  try {
+    payloadBytes = fromBase64Url(payloadText);
+    certificate = toCertificate(JSON.parse(new TextDecoder().decode(payloadBytes)));
+  } catch {
+    return { status: 'malformed' };
+  }
+  if (!certificate) return { status: 'malformed' };
+
+  try {
+    const valid = await verifySignature(fromBase64Url(signatureText), payloadBytes);
+    return valid ? { status: 'valid', certificate } : { status: 'invalid' };
+  } catch (err) {
+    console.error('Failed to verify certificate:', err);
+    return { status: 'invalid' };
+  }
+};
@@ -0,0 +1,96 @@
+import { getMessages, LOCALES } from './i18n';
+import { escapeHtml } from './markdown';
+import { encodeQrCode, qrCodeSvg } from './qrCode';
+import { Certificate, certificateId } from './certificate';
+
+// The certificate as an A4 landscape SVG, and a print page around it for "Save as
+// PDF". Labels are in the course's language, like the other downloads.
+
+const WIDTH = 1123; // A4 landscape at 96 dpi
+const HEIGHT = 794;
+const ACCENT = '#4285F4'; // The manifest's theme colour
+const QR_SIZE = 150;
+
+// SVG text does not wrap, so long titles are broken at spaces into lines of about `maxChars`
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const current = lines[lines.length - 1];
+    if (current !== undefined && current.length + word.length + 1 <= maxChars) {
+      lines[lines.length - 1] = `${current} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  if (lines.length > maxLines) {
+    lines.splice(maxLines - 1, lines.length, `${lines.slice(maxLines - 1).join(' ').slice(0, maxChars - 1)}…`);
+  }
+  return lines;
+};
+
+const centeredText = (lines: string[], y: number, lineHeight: number, attributes: string, x = WIDTH / 2) =>
+  `<text x="${x}" y="${y}" text-anchor="middle" ${attributes}>${lines
+    .map((line, index) => `<tspan x="${x}" dy="${index === 0 ? 0 : lineHeight}">${escapeHtml(line)}</tspan>`)
+    .join('')}</text>`;
+
+// `verifyLink` is what the QR code opens: the app's verification screen with the code filled in.
+// A certificate issued without a code has no ID or QR code.
+export const buildCertificateSvg = (certificate: Certificate, verification: { code: string; verifyLink: string } | null): string => {
+  const t = getMessages(certificate.language);
+  const direction = LOCALES[certificate.language].direction;
+  const date = new Intl.DateTimeFormat(certificate.language, { dateStyle: 'long' }).format(new Date(certificate.completedAt));
+  const titleLines = wrapText(certificate.courseTitle, 48, 2);
+  const afterTitle = 390 + (titleLines.length - 1) * 40;
+  const qrX = WIDTH - 70 - QR_SIZE;
+  const qrY = HEIGHT - 80 - QR_SIZE;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" direction="${direction}" font-family="'Segoe UI', Roboto, 'Noto Sans', Arial, sans-serif">
+<title>${escapeHtml(`${t.certificateTitle} – ${certificate.name}`)}</title>
+<rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff"/>
+<rect x="24" y="24" width="${WIDTH - 48}" height="${HEIGHT - 48}" fill="none" stroke="${ACCENT}" stroke-width="6"/>
+<rect x="40" y="40" width="${WIDTH - 80}" height="${HEIGHT - 80}" fill="none" stroke="${ACCENT}" stroke-width="1.5"/>
+${centeredText([t.certificateTitle], 140, 0, `font-size="44" font-weight="700" fill="${ACCENT}"`)}
+${centeredText([t.certificateAwardedTo], 210, 0, 'font-size="20" fill="#555555"')}
+${centeredText(wrapText(certificate.name, 40, 1), 275, 0, 'font-size="40" font-weight="700" fill="#222222"')}
+${centeredText([t.certificateCompletedCourse], 330, 0, 'font-size="20" fill="#555555"')}
+${centeredText(titleLines, 390, 40, 'font-size="32" font-weight="600" fill="#222222"')}
+${certificate.level ? centeredText([certificate.level], afterTitle + 45, 0, `font-size="20" fill="${ACCENT}"`) : ''}
+${centeredText([`${t.certificateScoreLabel}: ${certificate.percentage}%   ·   ${date}`], afterTitle + 95, 0, 'font-size="20" fill="#333333"')}
+<text x="70" y="${HEIGHT - 110}" font-size="22" font-weight="700" fill="${ACCENT}" direction="ltr">${escapeHtml(t.title)}</text>
+${verification ? `<text x="70" y="${HEIGHT - 80}" font-size="14" fill="#555555" direction="ltr">${escapeHtml(`${t.certificateIdLabel}: ${certificateId(verification.code)}`)}</text>
+${qrCodeSvg(encodeQrCode(verification.verifyLink, 'M'), { x: qrX, y: qrY, size: QR_SIZE, title: t.certificateQrDescription })}
+${centeredText([t.certificateScanToVerify], qrY + QR_SIZE + 22, 0, 'font-size="13" fill="#555555"', qrX + QR_SIZE / 2)}` : ''}
+</svg>
+`;
+};
+
+// A page that prints the certificate on one landscape sheet as soon as it opens
+export const buildCertificatePrintHtml = (certificate: Certificate, svg: string): string => {
+  const t = getMessages(certificate.language);
+  return `<!DOCTYPE html>
+<html lang="${certificate.language}" dir="${LOCALES[certificate.language].direction}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${t.certificateTitle} – ${certificate.courseTitle}`)}</title>
+<style>
+@page {
+  size: A4 landscape;
+  margin: 0;
+}
+html, body {
+  margin: 0;
+}
+body > svg {
+  display: block;
+  width: 100%;
+  height: auto;
+}
+</style>
+</head>
+<body>
+${svg}
+<script>window.addEventListener('load', function () { window.print(); });</script>
+</body>
+</html>
+`;
+};
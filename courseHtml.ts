@@ -0,0 +1,93 @@
+import { Course, QuizItem } from './interfaces';
+import { Messages } from './i18n';
+import { escapeHtml, inlineMarkdownToHtml, markdownToHtml } from './markdown';
+import { englishEquivalent } from './glossary';
+
+// HTML fragments of a course shared by the exports (SCORM, QTI package,
+// standalone HTML, print and EPUB). The output is also well-formed XML, so the
+// EPUB chapters can use it as XHTML.
+
+export const outlineHtml = (course: Course): string =>
+  `<ul>\n${course.outline.map(item => `<li>${inlineMarkdownToHtml(item)}</li>`).join('\n')}\n</ul>`;
+
+// A lesson's summary line and content, without its title
+export const lessonBodyHtml = (course: Course, index: number, labels: Messages): string => {
+  const summary = course.lessonSummaries[index]
+    ? `<p class="lesson-summary"><strong>${escapeHtml(labels.lessonSummaryPrefix)}:</strong> ${inlineMarkdownToHtml(course.lessonSummaries[index])}</p>\n`
+    : '';
+  return `${summary}${markdownToHtml(course.lessons[index].content)}`;
+};
+
+// The glossary as a definition list, or an empty string when the course has none
+export const glossaryHtml = (course: Course): string =>
+  course.glossary?.length
+    ? `<dl class="glossary">\n${course.glossary.map(entry => {
+      const english = englishEquivalent(entry);
+      return `<dt>${escapeHtml(entry.term)}${english ? ` <span lang="en">(${escapeHtml(english)})</span>` : ''}</dt><dd>${inlineMarkdownToHtml(entry.definition)}</dd>`;
+    }).join('\n')}\n</dl>`
+    : '';
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const optionList = (options: string[]) =>
+  `<ol class="quiz-options" type="A">${options.map(option => `<li>${inlineMarkdownToHtml(option)}</li>`).join('')}</ol>`;
+
+const hint = (text: string) => `<p class="quiz-hint">${escapeHtml(text)}</p>`;
+
+// A question as printed on paper: the learner answers in writing, so choices are lettered
+const staticQuestionHtml = (item: QuizItem, labels: Messages): string => {
+  const question = `<p class="quiz-question">${inlineMarkdownToHtml(item.question)}</p>`;
+  switch (item.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return `${question}\n${optionList(item.options)}`;
+    case 'multi-select':
+      return `${question}\n${hint(labels.selectAllThatApply)}\n${optionList(item.options)}`;
+    case 'fill-in-the-blank':
+      return question;
+    case 'ordering':
+      return `${question}\n${hint(labels.arrangeInOrder)}\n${optionList(item.options)}`;
+    case 'matching':
+      return `${question}\n${hint(labels.matchEachItem)}
+<div class="matching-columns">
+<ol>${(item.matchingPairs ?? []).map(pair => `<li>${inlineMarkdownToHtml(pair.left)}</li>`).join('')}</ol>
+${optionList(item.options)}
+</div>`;
+    case 'short-answer':
+      return `${question}\n${hint(labels.writeYourAnswer)}\n<div class="answer-lines"></div>`;
+  }
+};
+
+export const staticQuizHtml = (course: Course, labels: Messages): string =>
+  `<ol class="quiz-questions">\n${course.quiz.map(item => `<li>\n${staticQuestionHtml(item, labels)}\n</li>`).join('\n')}\n</ol>`;
+
+// The correct answer of each question, with option letters where the question has choices
+const answerHtml = (item: QuizItem, labels: Messages): string => {
+  const lettered = (answers: string[]) => answers
+    .map(answer => {
+      const index = item.options.indexOf(answer);
+      return `${index >= 0 ? `${letter(index)}. ` : ''}${inlineMarkdownToHtml(answer)}`;
+    })
+    .join('; ');
+
+  switch (item.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return lettered([item.correctAnswer]);
+    case 'multi-select':
+      return lettered(item.correctAnswers ?? [item.correctAnswer]);
+    case 'ordering':
+      return (item.correctOrder ?? []).map(step => letter(item.options.indexOf(step))).join(', ') || inlineMarkdownToHtml(item.correctAnswer);
+    case 'matching':
+      return (item.matchingPairs ?? []).map((pair, index) => `${index + 1}–${letter(item.options.indexOf(pair.right))}`).join(', ') || inlineMarkdownToHtml(item.correctAnswer);
+    case 'fill-in-the-blank':
+      return [item.correctAnswer, ...(item.acceptedAnswers ?? [])].map(answer => inlineMarkdownToHtml(answer)).join(' / ');
+    case 'short-answer':
+      return `<strong>${escapeHtml(labels.modelAnswerLabel)}:</strong> ${inlineMarkdownToHtml(item.correctAnswer)}${item.rubric?.length
+        ? `<ul>${item.rubric.map(point => `<li>${inlineMarkdownToHtml(point)}</li>`).join('')}</ul>`
+        : ''}`;
+  }
+};
+
+export const answerKeyHtml = (course: Course, labels: Messages): string =>
+  `<ol class="answer-key">\n${course.quiz.map(item => `<li>${answerHtml(item, labels)}</li>`).join('\n')}\n</ol>`;
@@ -0,0 +1,222 @@
+import { QuestionType } from './interfaces';
+import { getMessages, isLocaleCode, LocaleCode, LOCALE_CODES } from './i18n';
+import { CourseValidationResult, validateCourse } from './courseValidation';
+import { restoreHeadings } from './markdown';
+
+// Loads a downloaded course back into the app: either a Course JSON file (or a
+// saved library entry holding one) or the Markdown written by CourseDisplay's
+// generateContent. Both end up in validateCourse, like a generated course.
+
+// Stands in for the model name of imported courses in the library
+export const IMPORTED_MODEL = 'import';
+
+export interface CourseImport {
+  validation: CourseValidationResult;
+  language: LocaleCode; // Language the course is written in, as far as it can be told
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// A true/false question's options give the course's language away
+const languageOfTrueFalse = (options: string[]): LocaleCode | null =>
+  options.length === 2
+    ? LOCALE_CODES.find(code => {
+      const t = getMessages(code);
+      return same(options[0], t.trueOption) && same(options[1], t.falseOption);
+    }) ?? null
+    : null;
+
+const languageOfQuiz = (quiz: unknown): LocaleCode | null => {
+  if (!Array.isArray(quiz)) return null;
+  for (const item of quiz) {
+    const options = item && typeof item === 'object' ? (item as Record<string, unknown>).options : null;
+    const language = Array.isArray(options) && languageOfTrueFalse(options.filter((option): option is string => typeof option === 'string'));
+    if (language) return language;
+  }
+  return null;
+};
+
+// ---- Markdown ----
+
+interface MarkdownSection {
+  heading: string;
+  lines: string[];
+  lessons: { title: string; lines: string[] }[]; // Only the lessons section has ### headings
+}
+
+// Splits the export at its own headings: # title, ## sections and ### lessons. Headings
+// inside lesson content were demoted below these, and code blocks are skipped.
+const splitSections = (markdown: string): { title: string; sections: MarkdownSection[] } => {
+  let title = '';
+  const sections: MarkdownSection[] = [];
+  let inFence: string | null = null;
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const section = sections[sections.length - 1];
+    const fence = line.match(FENCE);
+    if (fence && (inFence === null || line.trim().startsWith(inFence))) {
+      inFence = inFence === null ? fence[1] : null;
+    } else if (inFence === null) {
+      const heading = line.match(/^(#{1,3}) (.+)$/);
+      if (heading?.[1] === '#' && !title && !section) {
+        title = heading[2].trim();
+        continue;
+      }
+      if (heading?.[1] === '##') {
+        sections.push({ heading: heading[2].trim(), lines: [], lessons: [] });
+        continue;
+      }
+      if (heading?.[1] === '###' && section) {
+        section.lessons.push({ title: heading[2].trim(), lines: [] });
+        continue;
+      }
+    }
+    if (section) (section.lessons[section.lessons.length - 1]?.lines ?? section.lines).push(line);
+  }
+  return { title, sections };
+};
+
+const listItems = (lines: string[]): string[] =>
+  lines.map(line => line.match(/^\* (.+)$/)?.[1].trim()).filter((item): item is string => !!item);
+
+// Splits a joined list, keeping together pieces that only make sense as one of the
+// known answers (an option containing the separator, say).
+const splitJoined = (text: string, separator: string, known: string[]): string[] => {
+  const pieces = text.split(separator).map(piece => piece.trim());
+  const items: string[] = [];
+  for (let start = 0; start < pieces.length;) {
+    let end = pieces.length;
+    while (end > start + 1 && !known.includes(pieces.slice(start, end).join(separator))) end--;
+    items.push(pieces.slice(start, end).join(separator));
+    start = end;
+  }
+  return items.filter(item => item !== '');
+};
+
+interface ExportedQuestion {
+  question: string;
+  options: string | null;
+  correctAnswer: string;
+  acceptedAnswers: string | null;
+  rubric: string | null;
+}
+
+const readQuestions = (lines: string[]): ExportedQuestion[] => {
+  const questions: ExportedQuestion[] = [];
+  for (const line of lines) {
+    const current = questions[questions.length - 1];
+    const question = line.match(/^\d+\. (.*)$/);
+    const field = line.match(/^\s+(Options|Correct Answer|Accepted Answers|Rubric): (.*)$/);
+    if (question) {
+      questions.push({ question: question[1].trim(), options: null, correctAnswer: '', acceptedAnswers: null, rubric: null });
+    } else if (field && current) {
+      if (field[1] === 'Options') current.options = field[2];
+      else if (field[1] === 'Correct Answer') current.correctAnswer = field[2].trim();
+      else if (field[1] === 'Accepted Answers') current.acceptedAnswers = field[2];
+      else current.rubric = field[2];
+    }
+  }
+  return questions;
+};
+
+// The export leaves out question types, so each one is told from the shape of its answer
+const toQuizItem = (exported: ExportedQuestion): Record<string, unknown> => {
+  const { question, correctAnswer } = exported;
+  const item = (type: QuestionType, fields: Record<string, unknown> = {}) => ({ question, type, options: [], correctAnswer, ...fields });
+
+  if (exported.options === null) {
+    if (exported.rubric !== null) return item('short-answer', { rubric: exported.rubric.split('; ') });
+    if (exported.acceptedAnswers !== null || /_{3,}/.test(question)) {
+      return item('fill-in-the-blank', { acceptedAnswers: exported.acceptedAnswers?.split('; ') ?? [] });
+    }
+    return item('short-answer');
+  }
+
+  const answerParts = correctAnswer.split('; ');
+  const steps = correctAnswer.split(' → ');
+  const pairs = answerParts.map(part => {
+    const arrow = part.indexOf(' → ');
+    return arrow > 0 ? { left: part.slice(0, arrow).trim(), right: part.slice(arrow + 3).trim() } : null;
+  });
+  const options = splitJoined(exported.options, ', ', [correctAnswer, ...answerParts, ...steps, ...pairs.map(pair => pair?.right ?? '')]);
+
+  if (options.includes(correctAnswer)) {
+    return item(languageOfTrueFalse(options) ? 'true-false' : 'multiple-choice', { options });
+  }
+  if (steps.length > 1 && steps.every(step => options.includes(step))) {
+    return item('ordering', { options, correctOrder: steps });
+  }
+  if (pairs.every(pair => pair && options.includes(pair.right))) {
+    return item('matching', { options, matchingPairs: pairs });
+  }
+  if (answerParts.length > 1 && answerParts.every(answer => options.includes(answer))) {
+    return item('multi-select', { options, correctAnswers: answerParts });
+  }
+  return item('multiple-choice', { options });
+};
+
+const joinLines = (lines: string[]) => lines.join('\n').trim();
+
+// Rebuilds the raw course object from the Markdown download. Sections are recognised
+// by position, since their headings are in whatever language the app was set to.
+const parseCourseMarkdown = (markdown: string): Record<string, unknown> => {
+  const { title, sections } = splitSections(markdown);
+  if (!title || sections.length < 4) {
+    throw new Error('The file is not a Geeddi Markdown download.');
+  }
+  const [outline, lessons, summary] = sections;
+  const quiz = sections[sections.length - 1];
+  const glossary = sections.length > 4 ? sections[3] : null;
+
+  const lessonParts = lessons.lessons.map(lesson => {
+    const body = joinLines(lesson.lines);
+    const summaryLine = body.match(/^\*\*[^*\n]+:\*\*[ \t]*(.*)(?:\n|$)/);
+    return {
+      title: lesson.title,
+      summary: summaryLine ? summaryLine[1].trim() : '',
+      content: restoreHeadings((summaryLine ? body.slice(summaryLine[0].length) : body).trim()),
+    };
+  });
+
+  return {
+    title,
+    outline: listItems(outline.lines),
+    lessons: lessonParts.map(lesson => ({ title: lesson.title, content: lesson.content })),
+    lessonSummaries: lessonParts.map(lesson => lesson.summary),
+    summary: restoreHeadings(joinLines(summary.lines)),
+    glossary: glossary
+      ? listItems(glossary.lines).map(line => {
+        const entry = line.match(/^\*\*(.+?)\*\*(?: \((.+?)\))?: (.*)$/);
+        // Without an English equivalent in brackets the term is its own English
+        return entry ? { term: entry[1], english: entry[2] ?? entry[1], definition: entry[3] } : null;
+      }).filter(Boolean)
+      : [],
+    quiz: readQuestions(quiz.lines).map(toQuizItem),
+  };
+};
+
+// ---- Import ----
+
+// `fallbackLanguage` is used when neither the file nor its quiz shows the course's language.
+export const importCourse = (text: string, fallbackLanguage: LocaleCode): CourseImport => {
+  let raw: unknown;
+  let language: LocaleCode | null = null;
+
+  if (text.trim().startsWith('{')) {
+    const parsed = JSON.parse(text) as Record<string, unknown>;
+    // A saved library entry carries its course and language
+    if (parsed.course && typeof parsed.course === 'object') {
+      raw = parsed.course;
+      if (typeof parsed.language === 'string' && isLocaleCode(parsed.language)) language = parsed.language;
+    } else {
+      raw = parsed;
+    }
+  } else {
+    raw = parseCourseMarkdown(text);
+  }
+
+  const resolved = language ?? languageOfQuiz((raw as Record<string, unknown> | null)?.quiz) ?? fallbackLanguage;
+  return { validation: validateCourse(raw, getMessages(resolved)), language: resolved };
+};
@@ -0,0 +1,180 @@
+import { Schema, Type } from "@google/genai";
+import { Course, CourseParameters, QUESTION_TYPES } from './interfaces';
+import { Messages } from './i18n';
+
+// Prompt and response schema for course generation. Optional course shape
+// parameters from the custom course form narrow both of them.
+
+const LESSON_LENGTH_GUIDANCE: Record<CourseParameters['lessonLength'], string> = {
+  short: 'about 150 words',
+  medium: 'about 300 words',
+  long: 'about 600 words',
+};
+
+// The parts of the course parameters that fix the number of lessons and questions.
+export type CourseShape = Pick<CourseParameters, 'lessonCount' | 'questionMix'>;
+
+export const questionCount = (parameters: CourseShape): number =>
+  QUESTION_TYPES.reduce((total, type) => total + (parameters.questionMix[type] ?? 0), 0);
+
+const describeQuestionMix = (parameters: CourseParameters): string =>
+  QUESTION_TYPES
+    .filter(type => (parameters.questionMix[type] ?? 0) > 0)
+    .map(type => `${parameters.questionMix[type]} ${type}`)
+    .join(', ');
+
+const QUESTION_TYPE_RULES = `Quiz question rules by type:
+      - 'multiple-choice': "options" lists the answers and "correctAnswer" is the exact correct option.
+      - 'true-false': "options" is the true and false labels and "correctAnswer" is one of them.
+      - 'multi-select': "options" lists the answers and "correctAnswers" lists every correct option (at least one, usually two or more).
+      - 'fill-in-the-blank': the question contains a blank written as "____"; "correctAnswer" fills it and "acceptedAnswers" lists other acceptable spellings or synonyms.
+      - 'ordering': "correctOrder" lists the steps in the right sequence and "options" lists the same steps in a scrambled order.
+      - 'matching': "matchingPairs" lists the correct term/definition pairs (left/right) and "options" lists the right-hand values in a scrambled order.
+      - 'short-answer': an open question answered in one to three sentences; "correctAnswer" is a model answer and "rubric" lists the two to four key points a complete answer must cover.`;
+
+export const buildCoursePrompt = (topic: string, languageName: string, parameters?: CourseParameters): string => {
+  const shape = parameters
+    ? `
+      The target audience is: ${parameters.audience || 'general learners'}. Pitch the material at a ${parameters.difficulty} difficulty level.
+      The course must have exactly ${parameters.lessonCount} lessons, each ${LESSON_LENGTH_GUIDANCE[parameters.lessonLength]} long.
+      The "Knowledge Check" section must have exactly ${questionCount(parameters)} questions: ${describeQuestionMix(parameters)}.`
+    : `
+      The "Knowledge Check" section should include a mix of question types: mostly multiple-choice and true/false, plus some multi-select, fill-in-the-blank, ordering, matching and short-answer questions.`;
+
+  return `You are an expert instructional designer for a corporate training platform.
+      Based on the topic "${topic}", generate a comprehensive learning course. The course content should be in the ${languageName} language.
+      For each lesson, provide a brief one-sentence summary.
+      Also provide a glossary of 5 to 10 key terms used in the lessons. Write each term exactly as it appears in the lesson text, and give its English equivalent and a one-sentence definition in ${languageName}.${shape}
+      ${QUESTION_TYPE_RULES}
+      The output must be a single, valid JSON object that strictly adheres to the provided schema. Do not include any text, markdown formatting, or code block syntax before or after the JSON object.
+      All generated text in the JSON response (titles, outlines, lessons, summaries, glossary terms and definitions, quizzes) MUST be in the ${languageName} language, except the glossary's English equivalents.
+      `;
+};
+
+const exactCount = (count: number | undefined): Pick<Schema, 'minItems' | 'maxItems'> =>
+  count ? { minItems: String(count), maxItems: String(count) } : {};
+
+// Shape of an existing course, so a new version of it (e.g. a translation) keeps the same structure.
+export const courseShape = (course: Course): CourseShape => ({
+  lessonCount: course.lessons.length,
+  questionMix: course.quiz.reduce<CourseShape['questionMix']>(
+    (mix, item) => ({ ...mix, [item.type]: (mix[item.type] ?? 0) + 1 }),
+    {}
+  ),
+});
+
+export const buildCourseSchema = (
+  languageName: string,
+  t: Messages,
+  parameters?: CourseShape
+): Schema => {
+  const allowedTypes = parameters
+    ? QUESTION_TYPES.filter(type => (parameters.questionMix[type] ?? 0) > 0)
+    : QUESTION_TYPES;
+
+  return {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING, description: `The title of the course in ${languageName}.` },
+        outline: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: `A bulleted list of topics covered in the course, in ${languageName}.`
+        },
+        lessons: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    content: { type: Type.STRING, description: `Detailed content for the lesson, in ${languageName}. May use Markdown (headings, lists, bold, tables, code blocks) but no HTML.` }
+                },
+                required: ["title", "content"]
+            },
+            ...exactCount(parameters?.lessonCount),
+            description: "An array of lesson objects."
+        },
+        lessonSummaries: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            ...exactCount(parameters?.lessonCount),
+            description: `An array of brief one-sentence summaries in ${languageName}, one for each lesson, in the same order.`
+        },
+        summary: { type: Type.STRING, description: `A concise summary of the entire course in ${languageName}.` },
+        glossary: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    term: { type: Type.STRING, description: `The term in ${languageName}, written exactly as it appears in the lessons.` },
+                    english: { type: Type.STRING, description: "The English equivalent of the term." },
+                    definition: { type: Type.STRING, description: `A one-sentence definition in ${languageName}.` }
+                },
+                required: ["term", "english", "definition"]
+            },
+            description: "Key terms used in the lessons, with their English equivalents and short definitions."
+        },
+        quiz: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    question: { type: Type.STRING },
+                    type: {
+                        type: Type.STRING,
+                        enum: allowedTypes,
+                        description: `The type of question, one of ${allowedTypes.map(type => `'${type}'`).join(', ')}.`
+                    },
+                    options: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                        description: `For 'multiple-choice' and 'multi-select', a list of answers. For 'true-false', this must be ['${t.trueOption}', '${t.falseOption}']. For 'ordering', the steps in scrambled order. For 'matching', the right-hand values in scrambled order. Empty for 'fill-in-the-blank' and 'short-answer'.`
+                    },
+                    correctAnswer: {
+                        type: Type.STRING,
+                        description: "For 'multiple-choice' and 'true-false', the exact string of the correct option. For 'fill-in-the-blank', the word or phrase that fills the blank. For 'short-answer', a model answer. For other types, a short readable statement of the correct answer."
+                    },
+                    correctAnswers: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                        description: "For 'multi-select' only: the exact strings of every correct option."
+                    },
+                    acceptedAnswers: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                        description: "For 'fill-in-the-blank' only: other accepted spellings or synonyms."
+                    },
+                    correctOrder: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                        description: "For 'ordering' only: the options in their correct sequence."
+                    },
+                    matchingPairs: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                left: { type: Type.STRING },
+                                right: { type: Type.STRING }
+                            },
+                            required: ["left", "right"]
+                        },
+                        description: "For 'matching' only: the correct left/right pairs."
+                    },
+                    rubric: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                        description: `For 'short-answer' only: the key points, in ${languageName}, that a complete answer must cover.`
+                    }
+                },
+                required: ["question", "type", "options", "correctAnswer"]
+            },
+            ...exactCount(parameters ? questionCount(parameters) : undefined),
+            description: `An array of quiz question objects in ${languageName} with varied types.`
+        }
+    },
+    required: ["title", "outline", "lessons", "lessonSummaries", "summary", "glossary", "quiz"],
+    // Stream sections in display order so each one can be shown as soon as it is complete
+    propertyOrdering: ["title", "outline", "lessons", "lessonSummaries", "summary", "glossary", "quiz"]
+  };
+};
@@ -0,0 +1,133 @@
+import { Course } from './interfaces';
+import { getMessages, isLocaleCode, LocaleCode } from './i18n';
+import { validateCourse } from './courseValidation';
+import { crc32 } from './zip';
+import { fromBase64Url, toBase64Url } from './base64url';
+
+// Course sharing through links, without a server. The course is compressed into
+// the URL fragment, which browsers never send anywhere. A course too long for one
+// link is split across several; their parts are collected in localStorage until
+// the learner has opened all of them.
+//
+// Fragment: #share=<format>.<checksum>.<part>.<parts>.<data>
+// - format: "z" for deflate-compressed JSON, "j" for plain JSON where the browser cannot compress
+// - checksum: CRC-32 of the JSON in hex; it also tells the parts of one course apart
+// - data: this part's slice of the base64url payload
+
+const FRAGMENT_PREFIX = '#share=';
+const FRAGMENT_PATTERN = /^#share=([zj])\.([0-9a-f]{8})\.(\d+)\.(\d+)\.([\w-]*)$/;
+const MAX_LINK_LENGTH = 2000; // Short enough for chat apps and for one QR code
+const PENDING_KEY = 'geeddi-share-parts';
+const PENDING_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // Unfinished sets of parts are dropped after a week
+
+type ShareFormat = 'z' | 'j';
+
+export interface SharedCourse {
+  course: Course;
+  language: LocaleCode;
+}
+
+export type ShareReceipt =
+  | { status: 'complete'; shared: SharedCourse }
+  | { status: 'partial'; received: number; total: number }
+  | { status: 'invalid' }; // Corrupted, truncated or not a course
+
+interface PendingShare {
+  format: ShareFormat;
+  total: number;
+  parts: Record<number, string>;
+  receivedAt: number;
+}
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const checksumOf = (bytes: Uint8Array) => crc32(bytes).toString(16).padStart(8, '0');
+
+export const isShareFragment = (hash: string): boolean => hash.startsWith(FRAGMENT_PREFIX);
+
+// `baseUrl` is the app's address without a fragment
+export const createShareLinks = async (course: Course, language: LocaleCode, baseUrl: string): Promise<string[]> => {
+  const json = new TextEncoder().encode(JSON.stringify({ language, course }));
+  const format: ShareFormat = typeof CompressionStream === 'undefined' ? 'j' : 'z';
+  const payload = toBase64Url(format === 'z' ? await pipeThrough(json, new CompressionStream('deflate-raw')) : json);
+  const prefix = `${baseUrl}${FRAGMENT_PREFIX}${format}.${checksumOf(json)}.`;
+
+  // Room for the part numbers, assuming fewer than a thousand parts
+  const partLength = Math.max(100, MAX_LINK_LENGTH - prefix.length - 8);
+  const total = Math.max(1, Math.ceil(payload.length / partLength));
+  return Array.from({ length: total }, (_, index) =>
+    `${prefix}${index + 1}.${total}.${payload.slice(index * partLength, (index + 1) * partLength)}`
+  );
+};
+
+const decodePayload = async (format: ShareFormat, checksum: string, payload: string): Promise<SharedCourse | null> => {
+  try {
+    const bytes = fromBase64Url(payload);
+    const json = format === 'z' ? await pipeThrough(bytes, new DecompressionStream('deflate-raw')) : bytes;
+    if (checksumOf(json) !== checksum) return null;
+
+    const parsed = JSON.parse(new TextDecoder().decode(json)) as { language?: unknown; course?: unknown };
+    if (typeof parsed.language !== 'string' || !isLocaleCode(parsed.language)) return null;
+    const validation = validateCourse(parsed.course, getMessages(parsed.language));
+    if (!validation.course || validation.errors.length > 0) return null;
+    return { course: validation.course, language: parsed.language };
+  } catch (err) {
+    console.error('Failed to decode shared course:', err);
+    return null;
+  }
+};
+
+const loadPending = (): Record<string, PendingShare> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PENDING_KEY) ?? '{}') as Record<string, PendingShare>;
+    const cutoff = Date.now() - PENDING_MAX_AGE;
+    return Object.fromEntries(Object.entries(stored).filter(([, pending]) => pending.receivedAt > cutoff));
+  } catch {
+    return {};
+  }
+};
+
+const savePending = (pending: Record<string, PendingShare>) => {
+  try {
+    localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  } catch (err) {
+    console.error('Failed to store shared course parts:', err);
+  }
+};
+
+// Reads a share fragment. Parts of a split course are kept until the last one arrives.
+export const receiveShareLink = async (hash: string): Promise<ShareReceipt> => {
+  const match = hash.match(FRAGMENT_PATTERN);
+  if (!match) return { status: 'invalid' };
+  const [, format, checksum, partText, totalText, data] = match as [string, ShareFormat, string, string, string, string];
+  const part = Number(partText);
+  const total = Number(totalText);
+  if (part < 1 || part > total) return { status: 'invalid' };
+
+  if (total === 1) {
+    const shared = await decodePayload(format, checksum, data);
+    return shared ? { status: 'complete', shared } : { status: 'invalid' };
+  }
+
+  const pending = loadPending();
+  const existing = pending[checksum];
+  const entry: PendingShare = existing && existing.total === total && existing.format === format
+    ? existing
+    : { format, total, parts: {}, receivedAt: Date.now() };
+  entry.parts[part] = data;
+  entry.receivedAt = Date.now();
+
+  const received = Object.keys(entry.parts).length;
+  if (received < total) {
+    savePending({ ...pending, [checksum]: entry });
+    return { status: 'partial', received, total };
+  }
+
+  // Complete or not, the set is done with: a broken part has to be sent again anyway
+  delete pending[checksum];
+  savePending(pending);
+  const payload = Array.from({ length: total }, (_, index) => entry.parts[index + 1]).join('');
+  const shared = await decodePayload(format, checksum, payload);
+  return shared ? { status: 'complete', shared } : { status: 'invalid' };
+};
@@ -0,0 +1,166 @@
+import { ChatMessage, Course, CourseParameters, LessonProgress, QuizAttempt, SavedCourse } from './interfaces';
+import type { LocaleCode } from './i18n';
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+// IndexedDB-backed course library. Every generated course is stored here so it
+// survives reloads, language switches and offline sessions.
+const DB_NAME = 'geeddi-academy';
+const DB_VERSION = 1;
+const COURSE_STORE = 'courses';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(COURSE_STORE)) {
+        const store = db.createObjectStore(COURSE_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null; // Allow a later call to retry opening the database
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Runs a single request against the course store and resolves with its result.
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(COURSE_STORE, mode);
+    const request = makeRequest(transaction.objectStore(COURSE_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const saveCourse = async (
+  course: Course,
+  meta: { profileId: string; topic: string; language: LocaleCode; model: string; parameters?: CourseParameters }
+): Promise<SavedCourse> => {
+  const saved: SavedCourse = {
+    id: createId(),
+    profileId: meta.profileId,
+    name: course.title,
+    topic: meta.topic,
+    language: meta.language,
+    model: meta.model,
+    parameters: meta.parameters,
+    createdAt: Date.now(),
+    course,
+  };
+  await runRequest('readwrite', store => store.put(saved));
+  return saved;
+};
+
+const courseProfileId = (saved: SavedCourse) => saved.profileId ?? DEFAULT_PROFILE_ID;
+
+// Every profile's courses, newest first.
+const listAllCourses = async (): Promise<SavedCourse[]> => {
+  const courses = await runRequest<SavedCourse[]>('readonly', store => store.getAll());
+  return courses.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// One profile's courses, newest first.
+export const listCourses = async (profileId: string): Promise<SavedCourse[]> =>
+  (await listAllCourses()).filter(saved => courseProfileId(saved) === profileId);
+
+export const getCourse = (id: string): Promise<SavedCourse | undefined> =>
+  runRequest<SavedCourse | undefined>('readonly', store => store.get(id));
+
+// Reads and rewrites a course inside one transaction, so updates that arrive close
+// together (a quiz attempt while lesson progress is saved) cannot overwrite each other.
+const updateCourse = async (
+  id: string,
+  update: (existing: SavedCourse) => SavedCourse
+): Promise<SavedCourse | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(COURSE_STORE, 'readwrite');
+    const store = transaction.objectStore(COURSE_STORE);
+    let updated: SavedCourse | undefined;
+    const request = store.get(id) as IDBRequest<SavedCourse | undefined>;
+    request.onsuccess = () => {
+      if (!request.result) return;
+      updated = update(request.result);
+      store.put(updated);
+    };
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const renameCourse = (id: string, name: string): Promise<SavedCourse | undefined> =>
+  updateCourse(id, existing => ({ ...existing, name: name.trim() || existing.course.title }));
+
+export const deleteCourse = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+export const deleteProfileCourses = async (profileId: string): Promise<void> => {
+  const courses = await listCourses(profileId);
+  await Promise.all(courses.map(saved => deleteCourse(saved.id)));
+};
+
+export const recordQuizAttempt = (id: string, attempt: QuizAttempt): Promise<SavedCourse | undefined> =>
+  updateCourse(id, existing => ({ ...existing, attempts: [...(existing.attempts ?? []), attempt] }));
+
+export const saveTutorChat = (
+  id: string,
+  lessonIndex: number,
+  messages: ChatMessage[]
+): Promise<SavedCourse | undefined> =>
+  updateCourse(id, existing => ({
+    ...existing,
+    tutorChats: { ...existing.tutorChats, [lessonIndex]: messages.filter(message => !message.failed) },
+  }));
+
+// `update` receives the lesson's current progress, if any, and the day is added to the course's study days
+export const recordLessonProgress = (
+  id: string,
+  lessonIndex: number,
+  day: string,
+  update: (previous: LessonProgress | undefined) => LessonProgress
+): Promise<SavedCourse | undefined> =>
+  updateCourse(id, existing => ({
+    ...existing,
+    lessonProgress: { ...existing.lessonProgress, [lessonIndex]: update(existing.lessonProgress?.[lessonIndex]) },
+    studyDays: existing.studyDays?.includes(day) ? existing.studyDays : [...(existing.studyDays ?? []), day],
+  }));
+
+// Links a course and its translation so every version knows the ids of all the others.
+export const linkLanguageVersions = async (sourceId: string, translationId: string): Promise<void> => {
+  const [source, translation] = await Promise.all([getCourse(sourceId), getCourse(translationId)]);
+  if (!source || !translation) return;
+  const versions = {
+    ...source.languageVersions,
+    ...translation.languageVersions,
+    [source.language]: source.id,
+    [translation.language]: translation.id,
+  };
+  await Promise.all(
+    Object.values(versions)
+      .filter((id): id is string => id !== undefined)
+      .map(id => updateCourse(id, existing => ({ ...existing, languageVersions: versions })))
+  );
+};
@@ -0,0 +1,180 @@
+import { Course } from './interfaces';
+
+// Incremental parsing of a course JSON document that is still being streamed.
+// Values that are cut off mid-way are dropped, except for objects and arrays
+// which are returned with whatever members have fully arrived so far.
+
+type ParseResult = [value: unknown, complete: boolean];
+
+class PartialJsonParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(completedKeys: string[]): ParseResult {
+    return this.parseValue(completedKeys);
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  private skipWhitespace() {
+    while (!this.atEnd() && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  // `completedKeys` is only passed for the top-level object, so callers can
+  // tell which of its members have been fully received.
+  private parseValue(completedKeys?: string[]): ParseResult {
+    this.skipWhitespace();
+    if (this.atEnd()) return [undefined, false];
+
+    const char = this.text[this.pos];
+    if (char === '{') return this.parseObject(completedKeys);
+    if (char === '[') return this.parseArray();
+    if (char === '"') return this.parseString();
+    return this.parseLiteral();
+  }
+
+  private parseObject(completedKeys?: string[]): ParseResult {
+    const result: Record<string, unknown> = {};
+    this.pos++; // Skip '{'
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return [result, false];
+
+      const char = this.text[this.pos];
+      if (char === '}') {
+        this.pos++;
+        return [result, true];
+      }
+      if (char === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const [key, keyComplete] = this.parseString();
+      if (!keyComplete) return [result, false];
+
+      this.skipWhitespace();
+      if (this.atEnd()) return [result, false];
+      if (this.text[this.pos] !== ':') {
+        throw new SyntaxError(`Expected ':' at position ${this.pos}`);
+      }
+      this.pos++;
+
+      const [value, complete] = this.parseValue();
+      if (value !== undefined && (complete || typeof value === 'object')) {
+        result[key as string] = value;
+      }
+      if (!complete) return [result, false];
+      completedKeys?.push(key as string);
+    }
+  }
+
+  private parseArray(): ParseResult {
+    const result: unknown[] = [];
+    this.pos++; // Skip '['
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return [result, false];
+
+      const char = this.text[this.pos];
+      if (char === ']') {
+        this.pos++;
+        return [result, true];
+      }
+      if (char === ',') {
+        this.pos++;
+        continue;
+      }
+
+      // Only fully received elements are kept, so a half-written lesson or
+      // quiz item never reaches the UI.
+      const [value, complete] = this.parseValue();
+      if (!complete) return [result, false];
+      result.push(value);
+    }
+  }
+
+  private parseString(): ParseResult {
+    if (this.text[this.pos] !== '"') {
+      throw new SyntaxError(`Expected '"' at position ${this.pos}`);
+    }
+    const start = this.pos;
+    this.pos++;
+
+    while (!this.atEnd()) {
+      const char = this.text[this.pos];
+      if (char === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      this.pos++;
+      if (char === '"') {
+        return [JSON.parse(this.text.slice(start, this.pos)), true];
+      }
+    }
+    return [undefined, false];
+  }
+
+  private parseLiteral(): ParseResult {
+    const match = /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(this.text.slice(this.pos));
+    if (!match) {
+      throw new SyntaxError(`Unexpected token at position ${this.pos}`);
+    }
+    this.pos += match[0].length;
+    // A literal that runs up to the end of the buffer may still be growing (e.g. "12" of "123").
+    if (this.atEnd()) return [undefined, false];
+    return [JSON.parse(match[0]), true];
+  }
+}
+
+export const parsePartialJson = (text: string): { value: unknown; complete: boolean; completedKeys: string[] } => {
+  const completedKeys: string[] = [];
+  const [value, complete] = new PartialJsonParser(text).parse(completedKeys);
+  return { value, complete, completedKeys };
+};
+
+export interface PartialCourse {
+  course: Course | null; // Null until at least the title has arrived
+  completed: Record<keyof Course, boolean>;
+}
+
+// Maps a partially streamed course document onto a Course with empty defaults
+// for sections that have not arrived yet.
+export const readPartialCourse = (jsonText: string): PartialCourse => {
+  const { value, completedKeys } = parsePartialJson(jsonText);
+  const partial = (value && typeof value === 'object' ? value : {}) as Partial<Course>;
+  const isComplete = (key: keyof Course) => completedKeys.includes(key);
+
+  const completed: Record<keyof Course, boolean> = {
+    title: isComplete('title'),
+    outline: isComplete('outline'),
+    lessons: isComplete('lessons'),
+    lessonSummaries: isComplete('lessonSummaries'),
+    summary: isComplete('summary'),
+    glossary: isComplete('glossary'),
+    quiz: isComplete('quiz'),
+  };
+
+  if (!completed.title) {
+    return { course: null, completed };
+  }
+
+  return {
+    course: {
+      title: partial.title ?? '',
+      outline: partial.outline ?? [],
+      lessons: partial.lessons ?? [],
+      lessonSummaries: partial.lessonSummaries ?? [],
+      summary: completed.summary ? partial.summary ?? '' : '',
+      glossary: partial.glossary ?? [],
+      // The quiz is only interactive once every question has arrived
+      quiz: completed.quiz ? partial.quiz ?? [] : [],
+    },
+    completed,
+  };
+};
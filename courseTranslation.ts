@@ -0,0 +1,174 @@
+import { Course, GlossaryEntry, MatchingPair, QuizItem } from './interfaces';
+import { TrueFalseLabels } from './courseValidation';
+
+// Translation of an existing course into the other language. The model only
+// supplies translated text; structure and answers are re-aligned here against
+// the source course by position, so both versions keep identical lessons and
+// quiz answers.
+
+export const buildTranslationPrompt = (
+  course: Course,
+  sourceLanguageName: string,
+  targetLanguageName: string,
+  labels: TrueFalseLabels
+): string => `You are a professional translator for a corporate training platform.
+      Translate the following ${sourceLanguageName} course into ${targetLanguageName}.
+      ${JSON.stringify(course)}
+      Rules:
+      - Translate every title, outline item, lesson, summary, glossary term and definition, question, option, answer and rubric point. Keep Markdown formatting, code, URLs and proper names unchanged.
+      - Keep exactly the same structure: the same number of outline items, lessons, lesson summaries, glossary entries and quiz questions, in the same order.
+      - Keep every glossary "english" value unchanged, and write each translated glossary term exactly as it appears in the translated lessons.
+      - Keep every quiz "type" value unchanged, and keep every array inside a question (options, correctAnswers, correctOrder, matchingPairs, acceptedAnswers, rubric) in the same order and length as the source.
+      - For 'true-false' questions the options must be ['${labels.trueOption}', '${labels.falseOption}'].
+      - Every correct answer must be the translation of the source answer and match the translated option text exactly.
+      The output must be a single, valid JSON object that strictly adheres to the provided schema. Do not include any text, markdown formatting, or code block syntax before or after the JSON object.
+      `;
+
+export interface TranslationAlignment {
+  course: Course;
+  mismatches: string[]; // Places where the translation's structure differed; the source text was kept there
+}
+
+const text = (value: unknown, fallback: string): string =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : fallback;
+
+const record = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+// Translates a list position by position, or keeps the source list when the lengths differ.
+const alignList = (
+  value: unknown,
+  source: string[],
+  path: string,
+  mismatches: string[]
+): string[] => {
+  const translated = Array.isArray(value) ? value : [];
+  if (translated.length !== source.length) {
+    if (source.length > 0) mismatches.push(`${path} has ${translated.length} items instead of ${source.length}`);
+    return source;
+  }
+  return source.map((item, index) => text(translated[index], item));
+};
+
+// Looks up the translation of each source value in a parallel list.
+const mapValues = (values: string[], sourceList: string[], translatedList: string[]): string[] =>
+  values.map(value => translatedList[sourceList.indexOf(value)] ?? value);
+
+const alignQuizItem = (
+  source: QuizItem,
+  value: unknown,
+  index: number,
+  labels: TrueFalseLabels,
+  mismatches: string[]
+): QuizItem => {
+  const raw = record(value);
+  const path = `quiz[${index}]`;
+  const base: QuizItem = { ...source, question: text(raw.question, source.question) };
+
+  switch (source.type) {
+    case 'true-false': {
+      const options = [labels.trueOption, labels.falseOption];
+      return { ...base, options, correctAnswer: options[source.options.indexOf(source.correctAnswer)] ?? options[0] };
+    }
+    case 'multiple-choice':
+    case 'multi-select': {
+      const options = alignList(raw.options, source.options, `${path}.options`, mismatches);
+      const correctAnswers = source.correctAnswers && mapValues(source.correctAnswers, source.options, options);
+      return {
+        ...base,
+        options,
+        ...(correctAnswers ? { correctAnswers } : {}),
+        correctAnswer: correctAnswers ? correctAnswers.join('; ') : mapValues([source.correctAnswer], source.options, options)[0],
+      };
+    }
+    case 'ordering': {
+      const sourceOrder = source.correctOrder ?? [];
+      const correctOrder = alignList(raw.correctOrder, sourceOrder, `${path}.correctOrder`, mismatches);
+      return {
+        ...base,
+        correctOrder,
+        options: mapValues(source.options, sourceOrder, correctOrder),
+        correctAnswer: correctOrder.join(' → '),
+      };
+    }
+    case 'matching': {
+      const sourcePairs = source.matchingPairs ?? [];
+      const rawPairs = Array.isArray(raw.matchingPairs) ? raw.matchingPairs.map(record) : [];
+      let matchingPairs: MatchingPair[] = sourcePairs;
+      if (rawPairs.length === sourcePairs.length) {
+        matchingPairs = sourcePairs.map((pair, pairIndex) => ({
+          left: text(rawPairs[pairIndex].left, pair.left),
+          right: text(rawPairs[pairIndex].right, pair.right),
+        }));
+      } else {
+        mismatches.push(`${path}.matchingPairs has ${rawPairs.length} pairs instead of ${sourcePairs.length}`);
+      }
+      return {
+        ...base,
+        matchingPairs,
+        options: mapValues(source.options, sourcePairs.map(pair => pair.right), matchingPairs.map(pair => pair.right)),
+        correctAnswer: matchingPairs.map(pair => `${pair.left} → ${pair.right}`).join('; '),
+      };
+    }
+    case 'fill-in-the-blank':
+      return {
+        ...base,
+        correctAnswer: text(raw.correctAnswer, source.correctAnswer),
+        // Accepted variants are spellings in the source language, so only translated ones are kept
+        acceptedAnswers: Array.isArray(raw.acceptedAnswers) ? raw.acceptedAnswers.filter((answer): answer is string => typeof answer === 'string') : [],
+      };
+    case 'short-answer':
+      return {
+        ...base,
+        correctAnswer: text(raw.correctAnswer, source.correctAnswer),
+        rubric: alignList(raw.rubric, source.rubric ?? [], `${path}.rubric`, mismatches),
+      };
+  }
+};
+
+// Translates terms and definitions by position; the English equivalents stay those of the source.
+const alignGlossary = (value: unknown, source: GlossaryEntry[], mismatches: string[]): GlossaryEntry[] => {
+  const translated = Array.isArray(value) ? value.map(record) : [];
+  if (translated.length !== source.length) {
+    if (source.length > 0) mismatches.push(`glossary has ${translated.length} entries instead of ${source.length}`);
+    return source;
+  }
+  return source.map((entry, index) => ({
+    term: text(translated[index].term, entry.term),
+    english: entry.english,
+    definition: text(translated[index].definition, entry.definition),
+  }));
+};
+
+export const alignTranslation = (source: Course, translated: unknown, labels: TrueFalseLabels): TranslationAlignment => {
+  const raw = record(translated);
+  const mismatches: string[] = [];
+
+  const rawLessons = Array.isArray(raw.lessons) ? raw.lessons.map(record) : [];
+  if (rawLessons.length !== source.lessons.length) {
+    mismatches.push(`lessons has ${rawLessons.length} items instead of ${source.lessons.length}`);
+  }
+  const rawQuiz = Array.isArray(raw.quiz) ? raw.quiz : [];
+  if (rawQuiz.length !== source.quiz.length) {
+    mismatches.push(`quiz has ${rawQuiz.length} questions instead of ${source.quiz.length}`);
+  }
+  const outline = Array.isArray(raw.outline)
+    ? raw.outline.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    : [];
+
+  return {
+    course: {
+      title: text(raw.title, source.title),
+      outline: outline.length > 0 ? outline : source.outline,
+      lessons: source.lessons.map((lesson, index) => ({
+        title: text(rawLessons[index]?.title, lesson.title),
+        content: text(rawLessons[index]?.content, lesson.content),
+      })),
+      lessonSummaries: alignList(raw.lessonSummaries, source.lessonSummaries, 'lessonSummaries', mismatches),
+      summary: text(raw.summary, source.summary),
+      glossary: alignGlossary(raw.glossary, source.glossary ?? [], mismatches),
+      quiz: source.quiz.map((item, index) => alignQuizItem(item, rawQuiz[index], index, labels, mismatches)),
+    },
+    mismatches,
+  };
+};
@@ -0,0 +1,425 @@
+import { Course, GlossaryEntry, Lesson, MatchingPair, QuestionType, QuizItem, QUESTION_TYPES } from './interfaces';
+import { scrambleSteps, shuffle } from './quizScoring';
+
+// Runtime validation for model-generated courses. Problems that have an obvious
+// fix (stray whitespace, answer casing, localized true/false labels) are
+// repaired in place; everything else is reported so the model can be re-prompted.
+
+export type CourseIssueCode =
+  | 'invalid-type'
+  | 'missing-field'
+  | 'empty-section'
+  | 'summary-count-mismatch'
+  | 'invalid-question-type'
+  | 'too-few-options'
+  | 'duplicate-option'
+  | 'duplicate-term'
+  | 'invalid-true-false-options'
+  | 'answer-not-in-options'
+  | 'invalid-order'
+  | 'invalid-pairs';
+
+export interface CourseIssue {
+  path: string; // e.g. "quiz[2].correctAnswer"
+  code: CourseIssueCode;
+  message: string;
+  repaired: boolean;
+}
+
+export interface CourseValidationResult {
+  course: Course | null; // Null when the document is too broken to be shaped into a Course
+  issues: CourseIssue[];
+  errors: CourseIssue[]; // The subset of issues that could not be repaired
+}
+
+export interface TrueFalseLabels {
+  trueOption: string;
+  falseOption: string;
+}
+
+// Labels the model commonly uses for true/false answers regardless of the course language
+const TRUE_ALIASES = ['true', 'run', 'yes', 'haa'];
+const FALSE_ALIASES = ['false', 'been', 'no', 'maya'];
+
+const normalize = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+class IssueCollector {
+  readonly issues: CourseIssue[] = [];
+
+  error(path: string, code: CourseIssueCode, message: string) {
+    this.issues.push({ path, code, message, repaired: false });
+  }
+
+  repaired(path: string, code: CourseIssueCode, message: string) {
+    this.issues.push({ path, code, message, repaired: true });
+  }
+}
+
+const readString = (value: unknown, path: string, collector: IssueCollector): string => {
+  if (!isString(value)) {
+    collector.error(path, value === undefined ? 'missing-field' : 'invalid-type', `${path} must be a string.`);
+    return '';
+  }
+  if (value.trim() === '') {
+    collector.error(path, 'empty-section', `${path} must not be empty.`);
+  }
+  return value.trim();
+};
+
+const readStringArray = (value: unknown, path: string, collector: IssueCollector): string[] => {
+  if (!Array.isArray(value)) {
+    collector.error(path, value === undefined ? 'missing-field' : 'invalid-type', `${path} must be an array of strings.`);
+    return [];
+  }
+  if (value.length === 0) {
+    collector.error(path, 'empty-section', `${path} must not be empty.`);
+  }
+  return value.map((item, index) => readString(item, `${path}[${index}]`, collector));
+};
+
+const readLessons = (value: unknown, collector: IssueCollector): Lesson[] => {
+  if (!Array.isArray(value)) {
+    collector.error('lessons', value === undefined ? 'missing-field' : 'invalid-type', 'lessons must be an array of lesson objects.');
+    return [];
+  }
+  if (value.length === 0) {
+    collector.error('lessons', 'empty-section', 'lessons must contain at least one lesson.');
+  }
+  return value.map((lesson, index) => {
+    const path = `lessons[${index}]`;
+    if (!lesson || typeof lesson !== 'object') {
+      collector.error(path, 'invalid-type', `${path} must be an object with a title and content.`);
+      return { title: '', content: '' };
+    }
+    const { title, content } = lesson as Record<string, unknown>;
+    return {
+      title: readString(title, `${path}.title`, collector),
+      content: readString(content, `${path}.content`, collector),
+    };
+  });
+};
+
+// Optional: courses made before glossaries were added have none, so a missing or empty
+// glossary is valid and only the entries that are present are checked.
+const readGlossary = (value: unknown, collector: IssueCollector): GlossaryEntry[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    collector.error('glossary', 'invalid-type', 'glossary must be an array of term objects.');
+    return [];
+  }
+  const entries = value.map((entry, index) => {
+    const path = `glossary[${index}]`;
+    if (!entry || typeof entry !== 'object') {
+      collector.error(path, 'invalid-type', `${path} must be an object with a term, english and definition.`);
+      return { term: '', english: '', definition: '' };
+    }
+    const { term, english, definition } = entry as Record<string, unknown>;
+    return {
+      term: readString(term, `${path}.term`, collector),
+      english: readString(english, `${path}.english`, collector),
+      definition: readString(definition, `${path}.definition`, collector),
+    };
+  });
+  const unique = entries.filter(
+    (entry, index) => entries.findIndex(other => normalize(other.term) === normalize(entry.term)) === index
+  );
+  if (unique.length !== entries.length) {
+    collector.repaired('glossary', 'duplicate-term', 'Removed duplicate glossary terms.');
+  }
+  return unique;
+};
+
+const QUESTION_TYPE_ALIASES: Record<string, QuestionType> = {
+  'multiple-choice': 'multiple-choice',
+  'true-false': 'true-false',
+  'truefalse': 'true-false',
+  'boolean': 'true-false',
+  'multi-select': 'multi-select',
+  'multiple-select': 'multi-select',
+  'multiple-response': 'multi-select',
+  'select-all-that-apply': 'multi-select',
+  'fill-in-the-blank': 'fill-in-the-blank',
+  'fill-in-blank': 'fill-in-the-blank',
+  'fill-blank': 'fill-in-the-blank',
+  'cloze': 'fill-in-the-blank',
+  'ordering': 'ordering',
+  'order': 'ordering',
+  'sequence': 'ordering',
+  'sequencing': 'ordering',
+  'matching': 'matching',
+  'match': 'matching',
+  'matching-pairs': 'matching',
+  'short-answer': 'short-answer',
+  'open-ended': 'short-answer',
+  'free-text': 'short-answer',
+  'essay': 'short-answer',
+};
+
+const readQuestionType = (value: unknown, path: string, collector: IssueCollector): QuestionType => {
+  const raw = isString(value) ? normalize(value).replace(/[^a-z]+/g, '-').replace(/^-|-$/g, '') : '';
+  const type = QUESTION_TYPE_ALIASES[raw];
+  if (type) {
+    if (type !== value) {
+      collector.repaired(path, 'invalid-question-type', `Normalized question type "${value}" to "${type}".`);
+    }
+    return type;
+  }
+  collector.error(
+    path,
+    'invalid-question-type',
+    `${path} must be one of ${QUESTION_TYPES.map(t => `"${t}"`).join(', ')}, got ${JSON.stringify(value)}.`
+  );
+  return 'multiple-choice';
+};
+
+// Maps any recognizable true/false label onto the localized option strings.
+const toTrueFalseLabel = (value: string, labels: TrueFalseLabels): string | null => {
+  const normalized = normalize(value);
+  if (normalized === normalize(labels.trueOption) || TRUE_ALIASES.includes(normalized)) return labels.trueOption;
+  if (normalized === normalize(labels.falseOption) || FALSE_ALIASES.includes(normalized)) return labels.falseOption;
+  return null;
+};
+
+const readOptionalStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter(isString).map(item => item.trim()).filter(item => item !== '') : [];
+
+const dedupe = (items: string[]): string[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = normalize(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Resolves an answer to one of the options, tolerating case and whitespace differences.
+const matchOption = (
+  answer: string,
+  options: string[],
+  path: string,
+  collector: IssueCollector
+): string | null => {
+  if (options.includes(answer)) return answer;
+  const match = options.find(option => normalize(option) === normalize(answer));
+  if (match) {
+    collector.repaired(path, 'answer-not-in-options', `Matched answer "${answer}" to option "${match}".`);
+    return match;
+  }
+  collector.error(path, 'answer-not-in-options', `"${answer}" is not one of the options.`);
+  return null;
+};
+
+const readChoiceOptions = (raw: Record<string, unknown>, path: string, collector: IssueCollector): string[] => {
+  if (!Array.isArray(raw.options)) {
+    collector.error(`${path}.options`, raw.options === undefined ? 'missing-field' : 'invalid-type', `${path}.options must be an array of strings.`);
+    return [];
+  }
+  let options = readOptionalStringArray(raw.options);
+  const uniqueOptions = dedupe(options);
+  if (uniqueOptions.length !== options.length) {
+    collector.repaired(`${path}.options`, 'duplicate-option', 'Removed duplicate options.');
+    options = uniqueOptions;
+  }
+  if (options.length < 2) {
+    collector.error(`${path}.options`, 'too-few-options', `${path} needs at least two options, got ${options.length}.`);
+  }
+  return options;
+};
+
+const readTrueFalse = (base: QuizItem, raw: Record<string, unknown>, path: string, labels: TrueFalseLabels, collector: IssueCollector): QuizItem => {
+  const options = readOptionalStringArray(raw.options);
+  const correctAnswer = readString(raw.correctAnswer, `${path}.correctAnswer`, collector);
+  const mapped = options.map(option => toTrueFalseLabel(option, labels));
+  const mappedAnswer = toTrueFalseLabel(correctAnswer, labels);
+  const expected = [labels.trueOption, labels.falseOption];
+
+  if (mapped.every(option => option !== null) && new Set(mapped).size === 2 && mappedAnswer) {
+    if (options.join('|') !== expected.join('|') || correctAnswer !== mappedAnswer) {
+      collector.repaired(`${path}.options`, 'invalid-true-false-options', `Mapped true/false options to "${labels.trueOption}"/"${labels.falseOption}".`);
+    }
+    return { ...base, options: expected, correctAnswer: mappedAnswer };
+  }
+  collector.error(
+    `${path}.options`,
+    'invalid-true-false-options',
+    `True/false questions must use exactly the options ["${labels.trueOption}", "${labels.falseOption}"] and one of them as correctAnswer.`
+  );
+  return { ...base, options, correctAnswer };
+};
+
+const readMultipleChoice = (base: QuizItem, raw: Record<string, unknown>, path: string, collector: IssueCollector): QuizItem => {
+  const options = readChoiceOptions(raw, path, collector);
+  const correctAnswer = readString(raw.correctAnswer, `${path}.correctAnswer`, collector);
+  const matched = correctAnswer ? matchOption(correctAnswer, options, `${path}.correctAnswer`, collector) : null;
+  return { ...base, options, correctAnswer: matched ?? correctAnswer };
+};
+
+const readMultiSelect = (base: QuizItem, raw: Record<string, unknown>, path: string, collector: IssueCollector): QuizItem => {
+  const options = readChoiceOptions(raw, path, collector);
+  const answers = dedupe(readOptionalStringArray(raw.correctAnswers));
+  if (answers.length === 0) {
+    collector.error(`${path}.correctAnswers`, 'missing-field', `${path}.correctAnswers must list at least one correct option.`);
+  }
+  const correctAnswers = answers
+    .map((answer, index) => matchOption(answer, options, `${path}.correctAnswers[${index}]`, collector) ?? answer);
+  return { ...base, options, correctAnswers, correctAnswer: correctAnswers.join('; ') };
+};
+
+const readFillInTheBlank = (base: QuizItem, raw: Record<string, unknown>, path: string, collector: IssueCollector): QuizItem => {
+  const correctAnswer = readString(raw.correctAnswer, `${path}.correctAnswer`, collector);
+  const acceptedAnswers = dedupe(readOptionalStringArray(raw.acceptedAnswers))
+    .filter(answer => normalize(answer) !== normalize(correctAnswer));
+  return { ...base, options: [], correctAnswer, acceptedAnswers };
+};
+
+const readOrdering = (base: QuizItem, raw: Record<string, unknown>, path: string, collector: IssueCollector): QuizItem => {
+  const correctOrder = dedupe(readOptionalStringArray(raw.correctOrder));
+  if (correctOrder.length < 2) {
+    collector.error(`${path}.correctOrder`, correctOrder.length === 0 ? 'missing-field' : 'invalid-order', `${path}.correctOrder must list at least two items in their correct sequence.`);
+  }
+  let options = readOptionalStringArray(raw.options);
+  const sameItems = options.length === correctOrder.length
+    && correctOrder.every(step => options.some(option => normalize(option) === normalize(step)));
+
+  if (!sameItems) {
+    if (options.length > 0) {
+      collector.repaired(`${path}.options`, 'invalid-order', 'Rebuilt the scrambled options from correctOrder.');
+    }
+    options = scrambleSteps(correctOrder, correctOrder);
+  } else {
+    // Use the exact wording of correctOrder so the submitted sequence can be compared directly
+    options = options.map(option => correctOrder.find(step => normalize(step) === normalize(option)) ?? option);
+    if (options.join('|') === correctOrder.join('|')) {
+      collector.repaired(`${path}.options`, 'invalid-order', 'Options were already in the correct order; scrambled them.');
+      options = scrambleSteps(correctOrder, correctOrder);
+    }
+  }
+  return { ...base, options, correctOrder, correctAnswer: correctOrder.join(' → ') };
+};
+
+const readMatching = (base: QuizItem, raw: Record<string, unknown>, path: string, collector: IssueCollector): QuizItem => {
+  const matchingPairs: MatchingPair[] = Array.isArray(raw.matchingPairs)
+    ? raw.matchingPairs
+        .filter((pair): pair is Record<string, unknown> => !!pair && typeof pair === 'object')
+        .filter(pair => isString(pair.left) && isString(pair.right))
+        .map(pair => ({ left: (pair.left as string).trim(), right: (pair.right as string).trim() }))
+    : [];
+  if (matchingPairs.length < 2) {
+    collector.error(`${path}.matchingPairs`, matchingPairs.length === 0 ? 'missing-field' : 'invalid-pairs', `${path}.matchingPairs must contain at least two pairs.`);
+  }
+  const rights = matchingPairs.map(pair => pair.right);
+  if (dedupe(matchingPairs.map(pair => pair.left)).length !== matchingPairs.length || dedupe(rights).length !== rights.length) {
+    collector.error(`${path}.matchingPairs`, 'invalid-pairs', 'Every left and every right value in matchingPairs must be unique.');
+  }
+
+  let options = readOptionalStringArray(raw.options);
+  const sameItems = options.length === rights.length && rights.every(right => options.includes(right));
+  if (!sameItems) {
+    if (options.length > 0) {
+      collector.repaired(`${path}.options`, 'invalid-pairs', 'Rebuilt the options from the right-hand values of matchingPairs.');
+    }
+    options = shuffle(rights);
+  }
+  return {
+    ...base,
+    options,
+    matchingPairs,
+    correctAnswer: matchingPairs.map(pair => `${pair.left} → ${pair.right}`).join('; '),
+  };
+};
+
+const readShortAnswer = (base: QuizItem, raw: Record<string, unknown>, path: string, collector: IssueCollector): QuizItem => {
+  const correctAnswer = readString(raw.correctAnswer, `${path}.correctAnswer`, collector);
+  let rubric = dedupe(readOptionalStringArray(raw.rubric));
+  if (rubric.length === 0 && correctAnswer) {
+    // The model answer is a usable, if coarse, single rubric point
+    collector.repaired(`${path}.rubric`, 'missing-field', 'Used the model answer as the only rubric point.');
+    rubric = [correctAnswer];
+  }
+  return { ...base, options: [], correctAnswer, rubric };
+};
+
+const readQuizItem = (value: unknown, index: number, labels: TrueFalseLabels, collector: IssueCollector): QuizItem => {
+  const path = `quiz[${index}]`;
+  if (!value || typeof value !== 'object') {
+    collector.error(path, 'invalid-type', `${path} must be a question object.`);
+    return { question: '', type: 'multiple-choice', options: [], correctAnswer: '' };
+  }
+  const raw = value as Record<string, unknown>;
+  const type = readQuestionType(raw.type, `${path}.type`, collector);
+  const base: QuizItem = {
+    question: readString(raw.question, `${path}.question`, collector),
+    type,
+    options: [],
+    correctAnswer: '',
+  };
+
+  switch (type) {
+    case 'true-false':
+      return readTrueFalse(base, raw, path, labels, collector);
+    case 'multi-select':
+      return readMultiSelect(base, raw, path, collector);
+    case 'fill-in-the-blank':
+      return readFillInTheBlank(base, raw, path, collector);
+    case 'ordering':
+      return readOrdering(base, raw, path, collector);
+    case 'matching':
+      return readMatching(base, raw, path, collector);
+    case 'short-answer':
+      return readShortAnswer(base, raw, path, collector);
+    default:
+      return readMultipleChoice(base, raw, path, collector);
+  }
+};
+
+export const validateCourse = (value: unknown, labels: TrueFalseLabels): CourseValidationResult => {
+  const collector = new IssueCollector();
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    collector.error('', 'invalid-type', 'The course must be a JSON object.');
+    return { course: null, issues: collector.issues, errors: collector.issues };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const title = readString(raw.title, 'title', collector);
+  const outline = readStringArray(raw.outline, 'outline', collector);
+  const lessons = readLessons(raw.lessons, collector);
+  let lessonSummaries = readStringArray(raw.lessonSummaries, 'lessonSummaries', collector);
+  const summary = readString(raw.summary, 'summary', collector);
+  const glossary = readGlossary(raw.glossary, collector);
+
+  if (lessonSummaries.length > lessons.length && lessons.length > 0) {
+    collector.repaired('lessonSummaries', 'summary-count-mismatch', `Dropped ${lessonSummaries.length - lessons.length} extra lesson summaries.`);
+    lessonSummaries = lessonSummaries.slice(0, lessons.length);
+  } else if (lessonSummaries.length < lessons.length) {
+    collector.error(
+      'lessonSummaries',
+      'summary-count-mismatch',
+      `There are ${lessons.length} lessons but only ${lessonSummaries.length} lesson summaries; provide exactly one per lesson.`
+    );
+  }
+
+  let quiz: QuizItem[] = [];
+  if (!Array.isArray(raw.quiz)) {
+    collector.error('quiz', raw.quiz === undefined ? 'missing-field' : 'invalid-type', 'quiz must be an array of question objects.');
+  } else {
+    if (raw.quiz.length === 0) {
+      collector.error('quiz', 'empty-section', 'quiz must contain at least one question.');
+    }
+    quiz = raw.quiz.map((item, index) => readQuizItem(item, index, labels, collector));
+  }
+
+  const errors = collector.issues.filter(issue => !issue.repaired);
+  return {
+    course: { title, outline, lessons, lessonSummaries, summary, glossary, quiz },
+    issues: collector.issues,
+    errors,
+  };
+};
+
+// Renders unrepaired errors as a bullet list for a corrective re-prompt.
+export const formatIssuesForPrompt = (issues: CourseIssue[]): string =>
+  issues.map(issue => `- ${issue.path ? `${issue.path}: ` : ''}${issue.message}`).join('\n');
@@ -0,0 +1,51 @@
+// CSV cells for the downloads (learner results, terminology) and the terminology import.
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Cells hold text chosen by learners and trainers, so a leading =, +, -, @, tab or CR is
+// prefixed with ' to keep spreadsheets from running the cell as a formula
+export const csvCell = (value: string) => {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const unguard = (cell: string) => (cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell);
+
+// Splits CSV text into rows of cells, honouring quoted cells with commas, quotes and line breaks.
+// The ' that csvCell puts before formula characters is removed again.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(unguard(cell));
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(unguard(cell));
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(unguard(cell));
+  rows.push(row);
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
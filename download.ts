@@ -0,0 +1,25 @@
+// Saves generated content as a file through a temporary download link.
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+// Opens a generated HTML page in a new tab, where it prints itself. Falls back to
+// downloading the page when the browser blocks the new tab.
+export const openForPrinting = (html: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }));
+  const printWindow = window.open(url, '_blank');
+  if (!printWindow) {
+    URL.revokeObjectURL(url);
+    downloadFile(html, fileName, 'text/html;charset=utf-8');
+    return;
+  }
+  // The tab needs the URL until it has loaded
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
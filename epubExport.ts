@@ -0,0 +1,114 @@
+import { Course } from './interfaces';
+import { LOCALES } from './i18n';
+import { escapeHtml, markdownToHtml } from './markdown';
+import { answerKeyHtml, glossaryHtml, lessonBodyHtml, outlineHtml, staticQuizHtml } from './courseHtml';
+import { BOOK_STYLES, BookOptions } from './htmlExport';
+import { createZip } from './zip';
+
+// EPUB 3 book of a course for e-readers: one XHTML chapter per lesson, then the
+// summary and glossary, the Knowledge Check and its answer key. E-readers cannot be
+// relied on to run scripts, so the quiz is printed as in the print layout.
+
+interface Chapter {
+  id: string;
+  title: string;
+  body: string;
+}
+
+const CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const bookId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? `urn:uuid:${crypto.randomUUID()}`
+    : `urn:geeddi:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const xhtmlDocument = (title: string, body: string, options: BookOptions): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${options.language}" xml:lang="${options.language}" dir="${LOCALES[options.language].direction}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const buildChapters = (course: Course, options: BookOptions): Chapter[] => {
+  const t = options.labels;
+  const glossary = course.glossary?.length ? `\n<h2>${escapeHtml(t.glossary)}</h2>\n${glossaryHtml(course)}` : '';
+  return [
+    {
+      id: 'outline',
+      title: t.courseOutline,
+      body: `<h1>${escapeHtml(course.title)}</h1>\n<h2>${escapeHtml(t.courseOutline)}</h2>\n${outlineHtml(course)}`,
+    },
+    ...course.lessons.map((lesson, index) => ({
+      id: `lesson-${index + 1}`,
+      title: lesson.title,
+      body: `<h1>${escapeHtml(lesson.title)}</h1>\n${lessonBodyHtml(course, index, t)}`,
+    })),
+    {
+      id: 'summary',
+      title: t.courseSummary,
+      body: `<h1>${escapeHtml(t.courseSummary)}</h1>\n${markdownToHtml(course.summary)}${glossary}`,
+    },
+    ...(course.quiz.length > 0
+      ? [
+        { id: 'quiz', title: t.knowledgeCheck, body: `<h1>${escapeHtml(t.knowledgeCheck)}</h1>\n${staticQuizHtml(course, t)}` },
+        { id: 'answers', title: t.answerKey, body: `<h1>${escapeHtml(t.answerKey)}</h1>\n${answerKeyHtml(course, t)}` },
+      ]
+      : []),
+  ];
+};
+
+const buildNav = (course: Course, chapters: Chapter[], options: BookOptions): string =>
+  xhtmlDocument(course.title, `<nav epub:type="toc" id="toc">
+<h1>${escapeHtml(course.title)}</h1>
+<ol>
+${chapters.map(chapter => `<li><a href="${chapter.id}.xhtml">${escapeHtml(chapter.title)}</a></li>`).join('\n')}
+</ol>
+</nav>`, options);
+
+const buildPackage = (course: Course, chapters: Chapter[], options: BookOptions, modified: Date): string => {
+  const direction = LOCALES[options.language].direction;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${options.language}" dir="${direction}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeHtml(bookId())}</dc:identifier>
+    <dc:title>${escapeHtml(course.title)}</dc:title>
+    <dc:language>${options.language}</dc:language>
+    <meta property="dcterms:modified">${modified.toISOString().replace(/\.\d{3}Z$/, 'Z')}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${chapters.map(chapter => `    <item id="${chapter.id}" href="${chapter.id}.xhtml" media-type="application/xhtml+xml"/>`).join('\n')}
+  </manifest>
+  <spine page-progression-direction="${direction}">
+${chapters.map(chapter => `    <itemref idref="${chapter.id}"/>`).join('\n')}
+  </spine>
+</package>
+`;
+};
+
+export const buildEpub = (course: Course, options: BookOptions, modified = new Date()): Uint8Array => {
+  const chapters = buildChapters(course, options);
+  // The uncompressed "mimetype" file has to come first in the archive
+  return createZip([
+    { path: 'mimetype', content: 'application/epub+zip' },
+    { path: 'META-INF/container.xml', content: CONTAINER },
+    { path: 'OEBPS/content.opf', content: buildPackage(course, chapters, options, modified) },
+    { path: 'OEBPS/nav.xhtml', content: buildNav(course, chapters, options) },
+    { path: 'OEBPS/style.css', content: BOOK_STYLES },
+    ...chapters.map(chapter => ({ path: `OEBPS/${chapter.id}.xhtml`, content: xhtmlDocument(chapter.title, chapter.body, options) })),
+  ], modified);
+};
@@ -0,0 +1,16 @@
+import { GlossaryEntry } from './interfaces';
+
+// Shared formatting of a course's glossary for the course view and the downloads.
+
+// The English equivalent worth showing next to a term, or null when it is the term itself
+// (as in English courses).
+export const englishEquivalent = (entry: GlossaryEntry): string | null =>
+  entry.english.trim() !== '' && entry.english.trim().toLowerCase() !== entry.term.trim().toLowerCase()
+    ? entry.english.trim()
+    : null;
+
+// One entry as a line of inline Markdown, e.g. "**Barashada mashiinka** (Machine learning): ..."
+export const glossaryEntryMarkdown = (entry: GlossaryEntry): string => {
+  const english = englishEquivalent(entry);
+  return `**${entry.term}**${english ? ` (${english})` : ''}: ${entry.definition}`;
+};
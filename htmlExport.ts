@@ -0,0 +1,141 @@
+import { Course } from './interfaces';
+import { LocaleCode, LOCALES, Messages } from './i18n';
+import { escapeHtml, markdownToHtml } from './markdown';
+import { answerKeyHtml, glossaryHtml, lessonBodyHtml, outlineHtml, staticQuizHtml } from './courseHtml';
+import { buildCoursePage, buildPlayerData, CoursePageOptions } from './scormExport';
+import { PLAYER_SCRIPT, PLAYER_STYLES } from './scormPlayer';
+
+// Single-file HTML downloads: a standalone copy of the course with the
+// interactive quiz, and a print layout for paper or "Save as PDF".
+
+export interface BookOptions {
+  language: LocaleCode; // Language the course is written in
+  labels: Messages;
+}
+
+// Keeps "</script>" and "<!--" out of data written into an inline script
+const inlineJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+// The SCORM page with the player inlined, so the file works offline on its own
+export const buildStandaloneHtml = (course: Course, options: CoursePageOptions): string =>
+  buildCoursePage(course, options, {
+    head: `<style>\n${PLAYER_STYLES}</style>`,
+    scripts: `<script>window.GEEDDI_COURSE = ${inlineJson(buildPlayerData(course, options, null))};</script>\n<script>\n${PLAYER_SCRIPT}</script>`,
+  });
+
+// Styles of the print layout and the EPUB chapters. Each lesson, the quiz and the
+// answer key start on a new page.
+export const BOOK_STYLES = `body {
+  font-family: Georgia, 'Times New Roman', serif;
+  line-height: 1.6;
+  color: #222;
+}
+h1, h2, h3, h4, h5, h6 {
+  font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
+  color: #2c3e50;
+  line-height: 1.3;
+}
+.lesson-summary {
+  font-style: italic;
+}
+pre {
+  white-space: pre-wrap;
+  padding: 0.5em;
+  border: 1px solid #ccc;
+}
+blockquote {
+  margin-inline: 0;
+  padding-inline-start: 1em;
+  border-inline-start: 3px solid #ccc;
+}
+table {
+  border-collapse: collapse;
+}
+th, td {
+  padding: 0.3em 0.6em;
+  border: 1px solid #999;
+}
+dt {
+  font-weight: bold;
+}
+dd {
+  margin: 0 0 0.6em 0;
+}
+.quiz-questions > li {
+  margin-bottom: 1.2em;
+  break-inside: avoid;
+}
+.quiz-hint {
+  font-style: italic;
+  color: #555;
+}
+.matching-columns {
+  display: flex;
+  gap: 3em;
+}
+.answer-lines {
+  height: 6em;
+  border-bottom: 1px solid #999;
+}
+.answer-key > li {
+  margin-bottom: 0.6em;
+}
+.page-break {
+  break-before: page;
+}
+`;
+
+const PRINT_STYLES = `@page {
+  size: A4;
+  margin: 2cm;
+}
+@media screen {
+  body {
+    max-width: 800px;
+    margin: 2rem auto;
+    padding: 0 1rem;
+  }
+}
+`;
+
+export const buildPrintHtml = (course: Course, options: BookOptions): string => {
+  const t = options.labels;
+  const lessons = course.lessons.map((lesson, index) => `<section class="page-break">
+<h2>${escapeHtml(lesson.title)}</h2>
+${lessonBodyHtml(course, index, t)}
+</section>`).join('\n');
+  const glossary = course.glossary?.length ? `\n<h2>${escapeHtml(t.glossary)}</h2>\n${glossaryHtml(course)}` : '';
+  const quiz = course.quiz.length > 0
+    ? `<section class="page-break">
+<h2>${escapeHtml(t.knowledgeCheck)}</h2>
+${staticQuizHtml(course, t)}
+</section>
+<section class="page-break">
+<h2>${escapeHtml(t.answerKey)}</h2>
+${answerKeyHtml(course, t)}
+</section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${options.language}" dir="${LOCALES[options.language].direction}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(course.title)}</title>
+<style>
+${BOOK_STYLES}${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(course.title)}</h1>
+<h2>${escapeHtml(t.courseOutline)}</h2>
+${outlineHtml(course)}
+${lessons}
+<section class="page-break">
+<h2>${escapeHtml(t.courseSummary)}</h2>
+${markdownToHtml(course.summary)}${glossary}
+</section>
+${quiz}
+<script>window.addEventListener('load', function () { window.print(); });</script>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,138 @@
+import { en } from './locales/en';
+import { so } from './locales/so';
+import { ar } from './locales/ar';
+import { sw } from './locales/sw';
+
+// Locale registry. Every interface string lives in a locale file under
+// locales/, keyed by the English messages; a locale that leaves a key out falls
+// back to English.
+
+export type LocaleCode = 'so' | 'en' | 'ar' | 'sw';
+
+// Text for each plural category of Intl.PluralRules. 'other' is required because
+// it is used whenever a locale has no text for the selected category.
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+type MessageSchema = typeof en;
+
+export type LocaleMessages = Partial<MessageSchema>;
+
+// Messages as the components use them: plain keys are strings and plural keys
+// are functions of the count.
+export type Messages = {
+  [K in keyof MessageSchema]: MessageSchema[K] extends string ? string : (count: number) => string;
+};
+
+// Keys of the plain (non-plural) messages
+export type TextKey = { [K in keyof Messages]: Messages[K] extends string ? K : never }[keyof Messages];
+
+// A predefined course on the home screen
+export interface CourseLevel {
+  title: string;
+  topic: string; // English topic passed to the course prompt
+}
+
+export interface LocaleDefinition {
+  nativeName: string; // Shown in the language selector and the translate banner
+  modelName: string; // English name of the language, used in model prompts
+  direction: 'ltr' | 'rtl';
+  messages: LocaleMessages;
+  courseLevels: CourseLevel[];
+}
+
+export const DEFAULT_LOCALE: LocaleCode = 'so';
+export const FALLBACK_LOCALE: LocaleCode = 'en';
+
+const COURSE_TOPICS = [
+  'AI Fundamentals for beginners',
+  'Intermediate Machine Learning Concepts',
+  'Advanced Deep Learning',
+  'University-Level Advanced AI Applications',
+];
+
+const levels = (titles: string[]): CourseLevel[] =>
+  titles.map((title, index) => ({ title, topic: COURSE_TOPICS[index] }));
+
+export const LOCALES: Record<LocaleCode, LocaleDefinition> = {
+  so: {
+    nativeName: 'Soomaali',
+    modelName: 'Somali',
+    direction: 'ltr',
+    messages: so,
+    courseLevels: levels([
+      'Aasaaska Sirdoonka Macmalka ah (Heerka Bilowga)',
+      'Fikradaha Barashada Mashiinka (Heerka Dhexe)',
+      'Barashada Qoto Dheer (Heerka Sare)',
+      'Isticmaalka Sare ee AI (Heer Jaamacadeed)',
+    ]),
+  },
+  en: {
+    nativeName: 'English',
+    modelName: 'English',
+    direction: 'ltr',
+    messages: en,
+    courseLevels: levels([
+      'AI Fundamentals (Beginner Level)',
+      'Machine Learning Concepts (Intermediate)',
+      'Deep Learning (Advanced)',
+      'Advanced AI Applications (University Level)',
+    ]),
+  },
+  ar: {
+    nativeName: 'العربية',
+    modelName: 'Arabic',
+    direction: 'rtl',
+    messages: ar,
+    courseLevels: levels([
+      'أساسيات الذكاء الاصطناعي (المستوى المبتدئ)',
+      'مفاهيم تعلّم الآلة (المستوى المتوسط)',
+      'التعلّم العميق (المستوى المتقدم)',
+      'تطبيقات الذكاء الاصطناعي المتقدمة (المستوى الجامعي)',
+    ]),
+  },
+  sw: {
+    nativeName: 'Kiswahili',
+    modelName: 'Swahili',
+    direction: 'ltr',
+    messages: sw,
+    courseLevels: levels([
+      'Misingi ya AI (Kiwango cha Mwanzo)',
+      'Dhana za Ujifunzaji wa Mashine (Kiwango cha Kati)',
+      'Ujifunzaji wa Kina (Kiwango cha Juu)',
+      'Matumizi ya Juu ya AI (Kiwango cha Chuo Kikuu)',
+    ]),
+  },
+};
+
+export const LOCALE_CODES = Object.keys(LOCALES) as LocaleCode[];
+
+export const isLocaleCode = (value: unknown): value is LocaleCode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+export const modelLanguageName = (code: LocaleCode): string => LOCALES[code].modelName;
+
+// Fills {name} placeholders; unknown placeholders are left as they are.
+export const formatMessage = (template: string, values: Record<string, string | number> = {}): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? String(values[name]) : placeholder);
+
+const resolvedMessages = new Map<LocaleCode, Messages>();
+
+export const getMessages = (code: LocaleCode): Messages => {
+  const cached = resolvedMessages.get(code);
+  if (cached) return cached;
+
+  const pluralRules = new Intl.PluralRules(code);
+  const merged: MessageSchema = { ...en, ...LOCALES[code].messages };
+  const messages = Object.fromEntries(
+    Object.entries(merged).map(([key, value]) => [
+      key,
+      typeof value === 'string'
+        ? value
+        : (count: number) => formatMessage(value[pluralRules.select(count)] ?? value.other, { count }),
+    ])
+  ) as Messages;
+
+  resolvedMessages.set(code, messages);
+  return messages;
+};
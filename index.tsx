@@ -1,7 +1,47 @@
-import React, { useState, useEffect, Suspense } from 'react';
+import React, { useState, useEffect, useMemo, useRef, Suspense } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Type } from "@google/genai";
-import { translations, courseLevels, Course } from './interfaces'; // Import from new interfaces file, including Course type
+import { AnswerGrade, ChatMessage, Course, CourseParameters, LearnerProfile, QuizAttempt, QuizItem, QuizResponse, SavedCourse, TermEntry } from './interfaces'; // Import from new interfaces file, including Course type
+import { saveCourse, listCourses, getCourse, renameCourse, deleteCourse, deleteProfileCourses, recordQuizAttempt, recordLessonProgress, saveTutorChat, linkLanguageVersions } from './courseStore';
+import CourseLibrary from './CourseLibrary';
+import CustomCourseForm from './CustomCourseForm';
+import TerminologyEditor from './TerminologyEditor';
+import { buildCoursePrompt, buildCourseSchema, courseShape } from './coursePrompt';
+import { formatResponse, isCorrectAnswer, scoreQuiz, shuffleQuiz } from './quizScoring';
+import { readPartialCourse } from './courseStream';
+import { validateCourse, formatIssuesForPrompt } from './courseValidation';
+import { importCourse, IMPORTED_MODEL } from './courseImport';
+import { isShareFragment, receiveShareLink, ShareReceipt } from './courseShare';
+import { canVerifyCertificates, courseLevelTitle, isVerifyFragment } from './certificate';
+import CertificateVerifier from './CertificateVerifier';
+import { buildCoveredTopicsInstruction, buildLearningPath, coveredTopics } from './learningPath';
+import LearningPathView from './LearningPathView';
+import { addReadingTime, buildResultsCsv, buildResultsExport, localDay, openLesson } from './progress';
+import ProgressDashboard from './ProgressDashboard';
+import { DEFAULT_PROFILE_ID, clearProfileStorage, createProfile, lastProfileId, loadProfiles, needsProfileChoice, profileDisplayName, profileStorageKey, rememberProfile, saveProfiles } from './profiles';
+import ProfilePicker from './ProfilePicker';
+import { downloadFile } from './download';
+import { createProvider, LlmProvider } from './llmProvider';
+import { buildGradingPrompt, GRADING_SCHEMA, parseAnswerGrade } from './answerGrading';
+import { buildTutorInstruction } from './tutorPrompt';
+import { alignTranslation, buildTranslationPrompt } from './courseTranslation';
+import { BilingualVersions } from './bilingualCourse';
+import { buildTerminologyInstruction, findForbiddenTerms, loadTerminology, saveTerminology } from './terminology';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_CODES, LocaleCode, formatMessage, getMessages, isLocaleCode, modelLanguageName } from './i18n';
+
+// The LLM backend (Gemini, a local OpenAI-compatible server or the offline mock) is chosen by configuration
+// Created on first use inside the handlers, so a missing API key or an unknown provider
+// shows up as a generation error instead of keeping the app and its library from loading
+let llmProvider: LlmProvider | null = null;
+const getLlmProvider = (): LlmProvider => (llmProvider ??= createProvider());
+const ACTIVE_COURSE_KEY = 'geeddi-active-course-id';
+const LANGUAGE_KEY = 'geeddi-language';
+const MAX_REPAIR_ATTEMPTS = 2; // Corrective re-prompts before giving up on an invalid course
+
+// The interface language a profile chose last, if any
+const storedLanguage = (profileId: string): LocaleCode | null => {
+  const stored = localStorage.getItem(profileStorageKey(profileId, LANGUAGE_KEY));
+  return stored && isLocaleCode(stored) ? stored : null;
+};
 
 // Lazy load the CourseDisplay component
 const LazyCourseDisplay = React.lazy(() => import('./CourseDisplay'));
@@ -10,11 +50,15 @@ const App = () => {
   const [isGeneratingCourse, setIsGeneratingCourse] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [course, setCourse] = useState<Course | null>(null); // Use Course type
-  const [language, setLanguage] = useState<'so' | 'en'>('so');
-  const [quizAnswers, setQuizAnswers] = useState<string[]>([]);
+  const [courseLanguage, setCourseLanguage] = useState<LocaleCode | null>(null); // Language the shown course is written in
+  const [isTranslatingCourse, setIsTranslatingCourse] = useState(false);
+  const [bilingualVersions, setBilingualVersions] = useState<BilingualVersions | null>(null); // Both language versions of the active course, once translated
+  const [quiz, setQuiz] = useState<QuizItem[]>([]); // The current attempt's questions, possibly shuffled
+  const [quizAnswers, setQuizAnswers] = useState<Array<QuizResponse | null>>([]);
   const [quizFeedback, setQuizFeedback] = useState<Array<'correct' | 'incorrect' | null>>([]);
   const [quizExplanations, setQuizExplanations] = useState<Array<string | null>>([]);
   const [explanationLoading, setExplanationLoading] = useState<boolean[]>([]);
+  const [quizGrades, setQuizGrades] = useState<Array<AnswerGrade | null>>([]); // Model grades of short-answer responses
 
   // New states for granular loading
   const [loadingOutline, setLoadingOutline] = useState(false);
@@ -26,7 +70,190 @@ const App = () => {
   const [deferredPrompt, setDeferredPrompt] = useState<Event | null>(null);
   const [isAppInstalled, setIsAppInstalled] = useState(false);
 
-  const t = translations[language];
+  // Course library states
+  const [savedCourses, setSavedCourses] = useState<SavedCourse[]>([]);
+  const [activeCourseId, setActiveCourseId] = useState<string | null>(null);
+  const [quizAttempts, setQuizAttempts] = useState<QuizAttempt[]>([]);
+  const [currentAttempt, setCurrentAttempt] = useState<QuizAttempt | null>(null);
+  const [verifyCode, setVerifyCode] = useState<string | null>(null); // From a scanned certificate QR code
+  const [shareNotice, setShareNotice] = useState<Exclude<ShareReceipt, { status: 'complete' }> | null>(null); // Outcome of a share link that opened no course
+
+  // Lesson tutor states, keyed by lesson index
+  const [tutorChats, setTutorChats] = useState<Record<number, ChatMessage[]>>({});
+  const [tutorLoading, setTutorLoading] = useState<Record<number, boolean>>({});
+
+  // Learner profiles; while `profileLocked` the profile picker is shown and no profile's data is loaded
+  const [profiles, setProfiles] = useState<LearnerProfile[]>(loadProfiles);
+  const [profileId, setProfileId] = useState(() => lastProfileId(profiles));
+  const [profileLocked, setProfileLocked] = useState(() => needsProfileChoice(profiles));
+  // The picker itself is shown in the default language; a profile's own is restored once it is open
+  const [language, setLanguage] = useState<LocaleCode>(() => (profileLocked ? null : storedLanguage(profileId)) ?? DEFAULT_LOCALE);
+
+  // Terminology base shared by generation, translation and explanations
+  const [terms, setTerms] = useState<TermEntry[]>(loadTerminology);
+
+  // Incremented whenever a running generation should stop updating the UI
+  const generationIdRef = useRef(0);
+  // Incremented on every new quiz attempt so late explanations from a previous attempt are ignored
+  const quizAttemptIdRef = useRef(0);
+
+  const t = getMessages(language);
+  // Explanations, grading and the tutor answer in the course's language, which can differ from the interface
+  const contentLanguage = courseLanguage ?? language;
+  const activeProfile = profiles.find(profile => profile.id === profileId) ?? profiles[0];
+  const activeCourseKey = profileStorageKey(profileId, ACTIVE_COURSE_KEY);
+  const activeSavedCourse = savedCourses.find(saved => saved.id === activeCourseId);
+  const courseLevel = activeSavedCourse ? courseLevelTitle(activeSavedCourse.topic, contentLanguage) : null;
+  const pathSteps = useMemo(
+    () => buildLearningPath(LOCALES[language].courseLevels, savedCourses, language),
+    [language, savedCourses]
+  );
+  const termFlags = useMemo(
+    () => (course && courseLanguage ? findForbiddenTerms(course, terms, courseLanguage) : []),
+    [course, courseLanguage, terms]
+  );
+
+  const resetQuizState = (questions: QuizItem[]) => {
+    const questionCount = questions.length;
+    quizAttemptIdRef.current++;
+    setQuiz(questions);
+    setCurrentAttempt(null);
+    setQuizAnswers(new Array(questionCount).fill(null));
+    setQuizFeedback(new Array(questionCount).fill(null));
+    setQuizExplanations(new Array(questionCount).fill(null));
+    setExplanationLoading(new Array(questionCount).fill(false));
+    setQuizGrades(new Array(questionCount).fill(null));
+  };
+
+  const refreshLibrary = async () => {
+    try {
+      setSavedCourses(await listCourses(profileId));
+    } catch (err) {
+      console.error('Failed to load course library:', err);
+    }
+  };
+
+  const openSavedCourse = (saved: SavedCourse) => {
+    generationIdRef.current++;
+    setIsGeneratingCourse(false);
+    setLanguage(saved.language);
+    setError(null);
+    setCourse(saved.course);
+    setCourseLanguage(saved.language);
+    setActiveCourseId(saved.id);
+    localStorage.setItem(activeCourseKey, saved.id);
+    resetQuizState(saved.course.quiz);
+    setQuizAttempts(saved.attempts ?? []);
+    setTutorChats(saved.tutorChats ?? {});
+    setTutorLoading({});
+    setLoadingOutline(false);
+    setLoadingLessons(false);
+    setLoadingSummary(false);
+    setLoadingQuiz(false);
+  };
+
+  // Opens the course carried by a share link's fragment. Resolves to true once a course
+  // is open; parts of a split course and broken links leave a notice instead.
+  const openShareLink = async (hash: string): Promise<boolean> => {
+    // The fragment is only needed once, and reloading should not import the course again
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    const receipt = await receiveShareLink(hash);
+    if (receipt.status !== 'complete') {
+      setShareNotice(receipt);
+      return false;
+    }
+    try {
+      const { course: sharedCourse, language: sharedLanguage } = receipt.shared;
+      const saved = await saveCourse(sharedCourse, {
+        profileId,
+        topic: sharedCourse.title,
+        language: sharedLanguage,
+        model: IMPORTED_MODEL,
+      });
+      setShareNotice(null);
+      await refreshLibrary();
+      openSavedCourse(saved);
+      return true;
+    } catch (err) {
+      console.error('Failed to save shared course:', err);
+      setShareNotice({ status: 'invalid' });
+      return false;
+    }
+  };
+
+  // Certificate QR codes link to the verification screen with the code in the fragment
+  const openVerifyLink = (hash: string) => {
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    setVerifyCode(hash);
+  };
+
+  useEffect(() => {
+    // A share or verification link opened while the app is running only changes the fragment.
+    // While the profile picker is shown the fragment is kept for the profile that is picked.
+    const handleHashChange = () => {
+      if (profileLocked) return;
+      if (isShareFragment(window.location.hash)) openShareLink(window.location.hash);
+      else if (isVerifyFragment(window.location.hash)) openVerifyLink(window.location.hash);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [profileId, profileLocked]);
+
+  useEffect(() => {
+    // Load the profile's library and open a shared course, or reopen the course that was active before
+    if (profileLocked) return;
+    const restoreLibrary = async () => {
+      await refreshLibrary();
+      if (isShareFragment(window.location.hash) && await openShareLink(window.location.hash)) return;
+      if (isVerifyFragment(window.location.hash)) openVerifyLink(window.location.hash);
+      const lastActiveId = localStorage.getItem(activeCourseKey);
+      if (!lastActiveId) return;
+      try {
+        const saved = await getCourse(lastActiveId);
+        if (saved) {
+          openSavedCourse(saved);
+        } else {
+          localStorage.removeItem(activeCourseKey);
+        }
+      } catch (err) {
+        console.error('Failed to restore the active course:', err);
+      }
+    };
+    restoreLibrary();
+  }, [profileId, profileLocked]);
+
+  useEffect(() => {
+    // Right-to-left locales flip the whole layout
+    document.documentElement.lang = language;
+    document.documentElement.dir = LOCALES[language].direction;
+  }, [language]);
+
+  useEffect(() => {
+    // Load the Somali and English versions of the active course for the side-by-side view
+    let cancelled = false;
+    const loadBilingualVersions = async () => {
+      if (!activeCourseId) {
+        setBilingualVersions(null);
+        return;
+      }
+      try {
+        const saved = await getCourse(activeCourseId);
+        const ids = saved?.languageVersions;
+        const [so, en] = await Promise.all([
+          ids?.so ? getCourse(ids.so) : undefined,
+          ids?.en ? getCourse(ids.en) : undefined,
+        ]);
+        if (!cancelled) setBilingualVersions(so && en ? { so: so.course, en: en.course } : null);
+      } catch (err) {
+        console.error('Failed to load the course translations:', err);
+        if (!cancelled) setBilingualVersions(null);
+      }
+    };
+    loadBilingualVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeCourseId]);
 
   useEffect(() => {
     // Check if the app is already installed as a PWA
@@ -79,16 +306,26 @@ const App = () => {
     }
   };
 
-  const handleGenerateCourse = async (topic: string) => {
+  // `priorTopics` are what earlier learning path levels covered, so the new course does not repeat them
+  const handleGenerateCourse = async (topic: string, parameters?: CourseParameters, priorTopics: string[] = []) => {
     if (isGeneratingCourse) return;
 
+    const generationId = ++generationIdRef.current;
     setIsGeneratingCourse(true);
     setError(null);
     setCourse(null);
+    setCourseLanguage(language);
+    setActiveCourseId(null);
+    setQuiz([]);
+    setQuizAttempts([]);
+    setCurrentAttempt(null);
+    setTutorChats({});
+    setTutorLoading({});
     setQuizAnswers([]);
     setQuizFeedback([]);
     setQuizExplanations([]);
     setExplanationLoading([]);
+    setQuizGrades([]);
     // Reset granular loading states
     setLoadingOutline(false);
     setLoadingLessons(false);
@@ -96,104 +333,76 @@ const App = () => {
     setLoadingQuiz(false);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const languageName = language === 'so' ? 'Somali' : 'English';
-      
-      const prompt = `You are an expert instructional designer for a corporate training platform. 
-      Based on the topic "${topic}", generate a comprehensive learning course. The course content should be in the ${languageName} language.
-      For each lesson, provide a brief one-sentence summary.
-      The "Knowledge Check" section should include a mix of multiple-choice and true/false questions.
-      The output must be a single, valid JSON object that strictly adheres to the provided schema. Do not include any text, markdown formatting, or code block syntax before or after the JSON object.
-      All generated text in the JSON response (titles, outlines, lessons, summaries, quizzes) MUST be in the ${languageName} language.
-      `;
+      const languageName = modelLanguageName(language);
       
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    title: { type: Type.STRING, description: `The title of the course in ${languageName}.` },
-                    outline: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING },
-                        description: `A bulleted list of topics covered in the course, in ${languageName}.`
-                    },
-                    lessons: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                title: { type: Type.STRING },
-                                content: { type: Type.STRING, description: `Detailed content for the lesson, in ${languageName}.` }
-                            },
-                            required: ["title", "content"]
-                        },
-                        description: "An array of lesson objects."
-                    },
-                    lessonSummaries: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING },
-                        description: `An array of brief one-sentence summaries in ${languageName}, one for each lesson, in the same order.`
-                    },
-                    summary: { type: Type.STRING, description: `A concise summary of the entire course in ${languageName}.` },
-                    quiz: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                question: { type: Type.STRING },
-                                type: { type: Type.STRING, description: "The type of question, either 'multiple-choice' or 'true-false'." },
-                                options: {
-                                    type: Type.ARRAY,
-                                    items: { type: Type.STRING },
-                                    description: `For 'multiple-choice', a list of answers. For 'true-false', this must be ['${t.trueOption}', '${t.falseOption}'].`
-                                },
-                                correctAnswer: { type: Type.STRING, description: "The exact string of the correct option." }
-                            },
-                            required: ["question", "type", "options", "correctAnswer"]
-                        },
-                        description: `An array of quiz question objects in ${languageName} with varied types.`
-                    }
-                },
-                 required: ["title", "outline", "lessons", "lessonSummaries", "summary", "quiz"]
-            }
+      const prompt = `${buildCoursePrompt(topic, languageName, parameters)}${buildCoveredTopicsInstruction(priorTopics)}${buildTerminologyInstruction(terms, language)}`;
+      const courseSchema = buildCourseSchema(languageName, t, parameters);
+      const courseRequest = { prompt, schema: courseSchema, language, topic };
+
+      let jsonText = '';
+      for await (const chunk of getLlmProvider().streamCourse(courseRequest)) {
+        if (generationIdRef.current !== generationId) return; // Superseded by a language switch or another course
+        jsonText += chunk;
+
+        let partial;
+        try {
+          partial = readPartialCourse(jsonText);
+        } catch {
+          continue; // Malformed so far; the final JSON.parse below reports the real error
         }
-      });
-      
-      const jsonText = response.text.trim();
-      const parsedCourse: Course = JSON.parse(jsonText); // Use Course type
-      setCourse(parsedCourse);
-      setQuizAnswers(new Array(parsedCourse.quiz.length).fill(null));
-      setQuizFeedback(new Array(parsedCourse.quiz.length).fill(null));
-      setQuizExplanations(new Array(parsedCourse.quiz.length).fill(null));
-      setExplanationLoading(new Array(parsedCourse.quiz.length).fill(false));
+        if (!partial.course) continue;
 
-      // After course is successfully parsed, stop global loading and trigger granular loading simulation
-      setIsGeneratingCourse(false); 
-      
-      setLoadingOutline(true);
-      setTimeout(() => {
-        setLoadingOutline(false);
-        setLoadingLessons(true);
-        setTimeout(() => {
-          setLoadingLessons(false);
-          setLoadingSummary(true);
-          setTimeout(() => {
-            setLoadingSummary(false);
-            setLoadingQuiz(true);
-            setTimeout(() => {
-              setLoadingQuiz(false);
-            }, 500); // Quiz loads after 500ms from summary
-          }, 500); // Summary loads after 500ms from lessons
-        }, 500); // Lessons loads after 500ms from outline
-      }, 500); // Outline loads after 500ms from course generation finish
+        setCourse(partial.course);
+        setLoadingOutline(!partial.completed.outline);
+        setLoadingLessons(!partial.completed.lessons);
+        setLoadingSummary(!partial.completed.summary);
+        // The quiz stays pending until it has been validated below
+        setLoadingQuiz(true);
+      }
+      if (generationIdRef.current !== generationId) return;
+
+      let validation = validateCourse(JSON.parse(jsonText.trim()), t);
+      // Ask the model to fix whatever could not be repaired automatically
+      for (let attempt = 1; validation.errors.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const repairPrompt = `${prompt}
+      Your previous response was:
+      ${JSON.stringify(validation.course)}
+      It has the following problems:
+      ${formatIssuesForPrompt(validation.errors)}
+      Return the complete corrected course as a single JSON object that fixes every problem listed above.
+      `;
+        const repairedJson = await getLlmProvider().generateCourse({ ...courseRequest, prompt: repairPrompt });
+        if (generationIdRef.current !== generationId) return;
+        validation = validateCourse(JSON.parse(repairedJson), t);
+      }
+      if (!validation.course || validation.errors.length > 0) {
+        throw new Error(`Generated course is invalid:\n${formatIssuesForPrompt(validation.errors)}`);
+      }
+      const parsedCourse: Course = validation.course;
+      setCourse(parsedCourse);
+      resetQuizState(parsedCourse.quiz);
+      setQuizAttempts([]);
 
+      // Persist the course so a reload or language switch doesn't lose it
+      try {
+        const saved = await saveCourse(parsedCourse, { profileId, topic, language, model: getLlmProvider().courseModel, parameters });
+        setActiveCourseId(saved.id);
+        localStorage.setItem(activeCourseKey, saved.id);
+        await refreshLibrary();
+      } catch (storageErr) {
+        console.error('Failed to save course to library:', storageErr);
+      }
 
+      // The stream has finished, so every section is now complete
+      setIsGeneratingCourse(false);
+      setLoadingOutline(false);
+      setLoadingLessons(false);
+      setLoadingSummary(false);
+      setLoadingQuiz(false);
     } catch (err) {
+      if (generationIdRef.current !== generationId) return;
       console.error(err);
+      setCourse(null);
       setError(t.generatingError);
       setIsGeneratingCourse(false); // Ensure global loading stops on error
       // Also stop granular loading in case of error
@@ -204,13 +413,38 @@ const App = () => {
     }
   };
   
-  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-      setLanguage(e.target.value as 'so' | 'en');
+  const handleLanguageChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+      if (!isLocaleCode(e.target.value)) return;
+      const newLanguage = e.target.value;
+      localStorage.setItem(profileStorageKey(profileId, LANGUAGE_KEY), newLanguage);
+      if (course && !isGeneratingCourse) {
+        // Keep the course: open its translation if there is one, otherwise offer to translate it
+        setLanguage(newLanguage);
+        if (!activeCourseId) return;
+        try {
+          const saved = await getCourse(activeCourseId);
+          const translationId = saved?.languageVersions?.[newLanguage];
+          const translation = translationId && translationId !== activeCourseId ? await getCourse(translationId) : undefined;
+          if (translation) openSavedCourse(translation);
+        } catch (err) {
+          console.error('Failed to open course translation:', err);
+        }
+        return;
+      }
+
+      generationIdRef.current++; // Abandon any course that is still streaming in
+      setLanguage(newLanguage);
       setCourse(null);
+      setCourseLanguage(null);
+      setActiveCourseId(null);
+      localStorage.removeItem(activeCourseKey);
       setQuizAnswers([]);
       setQuizFeedback([]);
       setQuizExplanations([]);
       setExplanationLoading([]);
+      setQuizGrades([]);
+      setTutorChats({});
+      setTutorLoading({});
       // Clear granular loading states and overall generation status
       setLoadingOutline(false);
       setLoadingLessons(false);
@@ -219,64 +453,360 @@ const App = () => {
       setIsGeneratingCourse(false); 
   }
   
-  const handleAnswerSelection = async (qIndex: number, option: string) => {
+  const handleTranslateCourse = async () => {
+    if (!course || !courseLanguage || courseLanguage === language || isTranslatingCourse || isGeneratingCourse) return;
+
+    const generationId = generationIdRef.current; // Opening or generating another course drops the result
+    const source = course;
+    const sourceId = activeCourseId;
+    const targetLanguage = language;
+    const labels = getMessages(targetLanguage);
+    setIsTranslatingCourse(true);
+    setError(null);
+
+    try {
+      const sourceLanguageName = modelLanguageName(courseLanguage);
+      const targetLanguageName = modelLanguageName(targetLanguage);
+      const sourceSaved = sourceId ? await getCourse(sourceId) : undefined;
+      const prompt = `${buildTranslationPrompt(source, sourceLanguageName, targetLanguageName, labels)}${buildTerminologyInstruction(terms, targetLanguage)}`;
+      const translationRequest = {
+        prompt,
+        schema: buildCourseSchema(targetLanguageName, labels, courseShape(source)),
+        language: targetLanguage,
+        topic: sourceSaved?.topic ?? source.title,
+      };
+
+      let alignment = alignTranslation(source, JSON.parse(await getLlmProvider().generateCourse(translationRequest)), labels);
+      if (alignment.mismatches.length > 0) {
+        // One retry with the structural differences spelled out; anything still off keeps the source text
+        const retryPrompt = `${prompt}
+      Your previous translation did not keep the structure of the source course:
+      ${alignment.mismatches.map(mismatch => `- ${mismatch}`).join('\n      ')}
+      Return the complete translated course again with exactly the same structure as the source.
+      `;
+        alignment = alignTranslation(source, JSON.parse(await getLlmProvider().generateCourse({ ...translationRequest, prompt: retryPrompt })), labels);
+      }
+
+      const validation = validateCourse(alignment.course, labels);
+      if (!validation.course || validation.errors.length > 0) {
+        throw new Error(`Translated course is invalid:\n${formatIssuesForPrompt(validation.errors)}`);
+      }
+      if (generationIdRef.current !== generationId) return;
+
+      const translated = await saveCourse(validation.course, {
+        profileId,
+        topic: translationRequest.topic,
+        language: targetLanguage,
+        model: getLlmProvider().courseModel,
+        parameters: sourceSaved?.parameters,
+      });
+      if (sourceId) await linkLanguageVersions(sourceId, translated.id);
+      await refreshLibrary();
+      if (generationIdRef.current !== generationId) return;
+      openSavedCourse((await getCourse(translated.id)) ?? translated);
+    } catch (err) {
+      console.error('Error translating course:', err);
+      if (generationIdRef.current === generationId) setError(t.translationError);
+    } finally {
+      setIsTranslatingCourse(false);
+    }
+  };
+
+  const handleOpenCourse = async (id: string) => {
+    if (isGeneratingCourse) return;
+    try {
+      const saved = await getCourse(id);
+      if (saved) openSavedCourse(saved);
+    } catch (err) {
+      console.error('Failed to open saved course:', err);
+    }
+  };
+
+  // Imported courses are validated like generated ones, saved to the library and opened
+  const handleImportCourse = async (file: File) => {
+    if (isGeneratingCourse) return;
+    const { validation, language: importedLanguage } = importCourse(await file.text(), contentLanguage);
+    if (!validation.course || validation.errors.length > 0) {
+      throw new Error(validation.errors[0]?.message ?? '');
+    }
+    const saved = await saveCourse(validation.course, {
+      profileId,
+      topic: validation.course.title,
+      language: importedLanguage,
+      model: IMPORTED_MODEL,
+    });
+    await refreshLibrary();
+    openSavedCourse(saved);
+  };
+
+  const handleTermsChange = (updated: TermEntry[]) => {
+    setTerms(updated);
+    try {
+      saveTerminology(updated);
+    } catch (err) {
+      console.error('Failed to save the terminology base:', err);
+    }
+  };
+
+  const handleRenameCourse = async (id: string, name: string) => {
+    try {
+      await renameCourse(id, name);
+      await refreshLibrary();
+    } catch (err) {
+      console.error('Failed to rename course:', err);
+    }
+  };
+
+  const handleDeleteCourse = async (id: string) => {
+    try {
+      await deleteCourse(id);
+      if (id === activeCourseId) {
+        setCourse(null);
+        setActiveCourseId(null);
+        localStorage.removeItem(activeCourseKey);
+      }
+      await refreshLibrary();
+    } catch (err) {
+      console.error('Failed to delete course:', err);
+    }
+  };
+
+  // Closes the open course and hides the profile's data until a profile is picked again
+  const handleSwitchLearner = () => {
+    generationIdRef.current++; // Abandon any course that is still streaming in
+    setProfileLocked(true);
+    setSavedCourses([]);
+    setCourse(null);
+    setCourseLanguage(null);
+    setActiveCourseId(null);
+    resetQuizState([]);
+    setQuizAttempts([]);
+    setTutorChats({});
+    setTutorLoading({});
+    setError(null);
+    setShareNotice(null);
+    setLoadingOutline(false);
+    setLoadingLessons(false);
+    setLoadingSummary(false);
+    setLoadingQuiz(false);
+    setIsGeneratingCourse(false);
+  };
+
+  const handleSelectProfile = (id: string) => {
+    const preferredLanguage = storedLanguage(id);
+    if (preferredLanguage) setLanguage(preferredLanguage);
+    rememberProfile(id);
+    setProfileId(id);
+    setProfileLocked(false);
+  };
+
+  const handleCreateProfile = async (name: string, pin: string) => {
+    const profile = await createProfile(name, pin);
+    const updated = [...profiles, profile];
+    saveProfiles(updated);
+    setProfiles(updated);
+    handleSelectProfile(profile.id);
+  };
+
+  // The default profile holds the data from before profiles existed and stays
+  const handleRemoveProfile = async () => {
+    if (profileId === DEFAULT_PROFILE_ID) return;
+    if (!window.confirm(formatMessage(t.confirmRemoveLearner, { name: profileDisplayName(activeProfile, t) }))) return;
+    try {
+      await deleteProfileCourses(profileId);
+      clearProfileStorage(profileId);
+      const updated = profiles.filter(profile => profile.id !== profileId);
+      saveProfiles(updated);
+      setProfiles(updated);
+      rememberProfile(DEFAULT_PROFILE_ID);
+      setProfileId(DEFAULT_PROFILE_ID);
+      handleSwitchLearner();
+    } catch (err) {
+      console.error('Failed to remove learner profile:', err);
+    }
+  };
+
+  // Every profile's results, for a supervisor; PINs only guard opening a profile's courses
+  const handleExportResults = async (format: 'json' | 'csv') => {
+    try {
+      const learners = await Promise.all(profiles.map(async profile => ({
+        profile,
+        name: profileDisplayName(profile, t),
+        courses: await listCourses(profile.id),
+      })));
+      const fileName = `geeddi-results-${localDay(Date.now())}`;
+      if (format === 'csv') {
+        downloadFile(buildResultsCsv(learners), `${fileName}.csv`, 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(buildResultsExport(learners), `${fileName}.json`, 'application/json');
+      }
+    } catch (err) {
+      console.error('Failed to export learner results:', err);
+    }
+  };
+
+  // Several answers may be graded or explained at once, so quiz state is updated per
+  // question rather than from a captured copy
+  const setAt = <T,>(setter: React.Dispatch<React.SetStateAction<T[]>>, qIndex: number, value: T) =>
+    setter(prev => prev.map((entry, index) => (index === qIndex ? value : entry)));
+
+  // Short answers go through the explanation pipeline too, but the model returns a
+  // structured rubric grade instead of free text.
+  const gradeShortAnswer = async (qIndex: number, response: string) => {
+    setAt(setExplanationLoading, qIndex, true);
+    const attemptId = quizAttemptIdRef.current;
+    const item = quiz[qIndex];
+    try {
+      const languageName = modelLanguageName(contentLanguage);
+      const gradeText = await getLlmProvider().gradeAnswer({
+        prompt: buildGradingPrompt(item, response, contentLanguage, languageName),
+        schema: GRADING_SCHEMA,
+        language: contentLanguage,
+        question: item.question,
+        rubric: item.rubric ?? [],
+        modelAnswer: item.correctAnswer,
+        response,
+      });
+      const grade = parseAnswerGrade(gradeText);
+      if (quizAttemptIdRef.current !== attemptId) return; // The quiz was retaken or replaced meanwhile
+      setAt<AnswerGrade | null>(setQuizGrades, qIndex, grade);
+      setAt<'correct' | 'incorrect' | null>(setQuizFeedback, qIndex, isCorrectAnswer(item, response, grade) ? 'correct' : 'incorrect');
+      setAt<string | null>(setQuizExplanations, qIndex, grade.feedback || null);
+    } catch (gradingErr) {
+      console.error("Error grading short answer:", gradingErr);
+      if (quizAttemptIdRef.current !== attemptId) return;
+      setAt<'correct' | 'incorrect' | null>(setQuizFeedback, qIndex, 'incorrect');
+      setAt<string | null>(setQuizExplanations, qIndex, t.failedGrading);
+    } finally {
+      if (quizAttemptIdRef.current === attemptId) setAt(setExplanationLoading, qIndex, false);
+    }
+  };
+
+  const handleAnswerSelection = async (qIndex: number, response: QuizResponse) => {
     // Prevent answering if already answered or explanation is loading for this question
     if (quizAnswers[qIndex] !== null || explanationLoading[qIndex]) return; 
 
-    const newAnswers = [...quizAnswers];
-    newAnswers[qIndex] = option;
-    setQuizAnswers(newAnswers);
+    setAt<QuizResponse | null>(setQuizAnswers, qIndex, response);
+
+    if (quiz[qIndex].type === 'short-answer') {
+      await gradeShortAnswer(qIndex, String(response));
+      return;
+    }
+
+    if (isCorrectAnswer(quiz[qIndex], response)) {
+      setAt<'correct' | 'incorrect' | null>(setQuizFeedback, qIndex, 'correct');
+      return;
+    }
+    setAt<'correct' | 'incorrect' | null>(setQuizFeedback, qIndex, 'incorrect');
 
-    const newFeedback = [...quizFeedback];
-    if (option === course?.quiz[qIndex].correctAnswer) {
-      newFeedback[qIndex] = 'correct';
-      setQuizFeedback(newFeedback);
-    } else {
-      newFeedback[qIndex] = 'incorrect';
-      setQuizFeedback(newFeedback);
+    // Trigger AI for explanation if the answer is incorrect
+    setAt(setExplanationLoading, qIndex, true);
+    setAt<string | null>(setQuizExplanations, qIndex, t.loadingExplanation); // Set loading placeholder
 
-      // Trigger AI for explanation if the answer is incorrect
-      const newExplanationLoading = [...explanationLoading];
-      newExplanationLoading[qIndex] = true;
-      setExplanationLoading(newExplanationLoading);
+    const attemptId = quizAttemptIdRef.current;
+    try {
+      const languageName = modelLanguageName(contentLanguage);
+      const question = quiz[qIndex].question;
+      const correctAnswer = quiz[qIndex].correctAnswer;
+      const selectedAnswer = formatResponse(quiz[qIndex], response) ?? '';
 
-      const newExplanations = [...quizExplanations];
-      newExplanations[qIndex] = t.loadingExplanation; // Set loading placeholder
-      setQuizExplanations(newExplanations);
+      const explanationPrompt = `For the question: "${question}", the correct answer is "${correctAnswer}". If someone chose "${selectedAnswer}", why would that be wrong? Provide a brief explanation of why the correct answer is right and the chosen answer is wrong, in less than 100 words. Respond in ${languageName}.${buildTerminologyInstruction(terms, contentLanguage)}`;
 
-      try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const languageName = language === 'so' ? 'Somali' : 'English';
-        const question = course?.quiz[qIndex].question;
-        const correctAnswer = course?.quiz[qIndex].correctAnswer;
-        const selectedAnswer = option;
-
-        const explanationPrompt = `For the question: "${question}", the correct answer is "${correctAnswer}". If someone chose "${selectedAnswer}", why would that be wrong? Provide a brief explanation of why the correct answer is right and the chosen answer is wrong, in less than 100 words. Respond in ${languageName}.`;
-        
-        const explanationResponse = await ai.models.generateContent({
-          model: 'gemini-2.5-flash', // Using a lighter model for explanations
-          contents: explanationPrompt,
-          config: {
-            temperature: 0.7,
-            maxOutputTokens: 150, 
-            thinkingConfig: { thinkingBudget: 50 } 
-          }
-        });
+      const explanationText = await getLlmProvider().explainAnswer({
+        prompt: explanationPrompt,
+        language: contentLanguage,
+        question,
+        correctAnswer,
+        selectedAnswer,
+      });
+      if (quizAttemptIdRef.current !== attemptId) return; // The quiz was retaken or replaced meanwhile
+      setAt<string | null>(setQuizExplanations, qIndex, explanationText);
+    } catch (explanationErr) {
+      console.error("Error generating explanation:", explanationErr);
+      if (quizAttemptIdRef.current !== attemptId) return;
+      setAt<string | null>(setQuizExplanations, qIndex, t.failedExplanation);
+    } finally {
+      if (quizAttemptIdRef.current === attemptId) setAt(setExplanationLoading, qIndex, false);
+    }
+  };
+
+  useEffect(() => {
+    // Score the attempt once every question has been answered
+    if (currentAttempt || quiz.length === 0 || quizFeedback.length !== quiz.length) return;
+    if (quizFeedback.some(fb => fb === null)) return;
+
+    const attempt = scoreQuiz(quiz, quizAnswers, quizGrades);
+    setCurrentAttempt(attempt);
+    setQuizAttempts(prev => [...prev, attempt]);
+    if (activeCourseId) {
+      // The library is reloaded so the learning path sees a passed level
+      recordQuizAttempt(activeCourseId, attempt).then(refreshLibrary).catch(err => {
+        console.error('Failed to save quiz attempt:', err);
+      });
+    }
+  }, [quizFeedback, quiz, quizAnswers, quizGrades, currentAttempt, activeCourseId]);
+
+  // Lesson reading reported by the course's accordions; only saved courses are tracked
+  const handleLessonOpen = (lessonIndex: number) => {
+    if (!activeCourseId) return;
+    const now = Date.now();
+    recordLessonProgress(activeCourseId, lessonIndex, localDay(now), previous => openLesson(previous, now))
+      .then(refreshLibrary)
+      .catch(err => console.error('Failed to save lesson progress:', err));
+  };
 
-        const explanationText = explanationResponse.text.trim();
-        const updatedExplanations = [...newExplanations]; // Use newExplanations to avoid race condition if state updates before API call finishes
-        updatedExplanations[qIndex] = explanationText;
-        setQuizExplanations(updatedExplanations);
-
-      } catch (explanationErr) {
-        console.error("Error generating explanation:", explanationErr);
-        const updatedExplanations = [...newExplanations]; // Use newExplanations
-        updatedExplanations[qIndex] = t.failedExplanation;
-        setQuizExplanations(updatedExplanations);
-      } finally {
-        const newExplanationLoading = [...explanationLoading];
-        newExplanationLoading[qIndex] = false;
-        setExplanationLoading(newExplanationLoading);
+  const handleLessonRead = (lessonIndex: number, readingMs: number) => {
+    if (!activeCourseId || !course) return;
+    const now = Date.now();
+    const lessonContent = course.lessons[lessonIndex]?.content ?? '';
+    recordLessonProgress(activeCourseId, lessonIndex, localDay(now), previous => addReadingTime(previous, lessonContent, readingMs, now))
+      .then(refreshLibrary)
+      .catch(err => console.error('Failed to save lesson progress:', err));
+  };
+
+  const handleRetakeQuiz = () => {
+    if (!course) return;
+    resetQuizState(shuffleQuiz(course.quiz));
+  };
+
+  const handleTutorMessage = async (lessonIndex: number, text: string) => {
+    if (!course || tutorLoading[lessonIndex]) return;
+
+    const generationId = generationIdRef.current; // Replies for a course that was replaced are dropped
+    const courseId = activeCourseId;
+    const history: ChatMessage[] = [
+      ...(tutorChats[lessonIndex] ?? []).filter(message => !message.failed),
+      { role: 'learner', text, createdAt: Date.now() },
+    ];
+    setTutorChats(prev => ({ ...prev, [lessonIndex]: history }));
+    setTutorLoading(prev => ({ ...prev, [lessonIndex]: true }));
+
+    try {
+      const languageName = modelLanguageName(contentLanguage);
+      const reply = await getLlmProvider().chatWithTutor({
+        instruction: buildTutorInstruction(course, lessonIndex, languageName),
+        messages: history,
+        language: contentLanguage,
+        lessonContent: course.lessons[lessonIndex].content,
+      });
+      if (generationIdRef.current !== generationId) return;
+      const updated: ChatMessage[] = [...history, { role: 'tutor', text: reply, createdAt: Date.now() }];
+      setTutorChats(prev => ({ ...prev, [lessonIndex]: updated }));
+      if (courseId) {
+        saveTutorChat(courseId, lessonIndex, updated).catch(err => {
+          console.error('Failed to save tutor chat:', err);
+        });
+      }
+    } catch (tutorErr) {
+      console.error("Error generating tutor reply:", tutorErr);
+      if (generationIdRef.current !== generationId) return;
+      setTutorChats(prev => ({
+        ...prev,
+        [lessonIndex]: [...history, { role: 'tutor', text: t.failedTutorReply, createdAt: Date.now(), failed: true }],
+      }));
+    } finally {
+      if (generationIdRef.current === generationId) {
+        setTutorLoading(prev => ({ ...prev, [lessonIndex]: false }));
       }
     }
   };
@@ -287,27 +817,64 @@ const App = () => {
         <h1>{t.title}</h1>
         <p>{t.subtitle}</p>
         <select className="language-selector" value={language} onChange={handleLanguageChange} aria-label={t.selectLanguage}>
-            <option value="so">Soomaali</option>
-            <option value="en">English</option>
+            {LOCALE_CODES.map(code => (
+              <option key={code} value={code} lang={code}>{LOCALES[code].nativeName}</option>
+            ))}
         </select>
+        {!profileLocked && (
+          <div className="profile-bar">
+            <span className="profile-current">
+              <span aria-hidden="true">👤 </span>
+              {formatMessage(t.learningAs, { name: profileDisplayName(activeProfile, t) })}
+            </span>
+            <button type="button" onClick={handleSwitchLearner}>{t.switchLearner}</button>
+            {profileId !== DEFAULT_PROFILE_ID && (
+              <button type="button" onClick={handleRemoveProfile}>{t.removeLearner}</button>
+            )}
+          </div>
+        )}
       </header>
 
-      <div className="input-section">
-        <div className="curriculum-grid">
-          {courseLevels[language].map((level, index) => (
-            <button 
-              key={index} 
-              className="level-button"
-              onClick={() => handleGenerateCourse(level.topic)}
-              disabled={isGeneratingCourse}
-            >
-              {level.title}
-            </button>
-          ))}
+      {profileLocked && (
+        <ProfilePicker
+          profiles={profiles}
+          t={t}
+          onSelect={handleSelectProfile}
+          onCreate={handleCreateProfile}
+          onExportResults={handleExportResults}
+        />
+      )}
+
+      {!profileLocked && (
+        <div className="input-section">
+          <LearningPathView
+            steps={pathSteps}
+            t={t}
+            disabled={isGeneratingCourse}
+            onStart={(index) => handleGenerateCourse(pathSteps[index].level.topic, undefined, coveredTopics(pathSteps, index))}
+            onOpen={handleOpenCourse}
+          />
+          <CustomCourseForm
+            t={t}
+            disabled={isGeneratingCourse}
+            onGenerate={(parameters) => handleGenerateCourse(parameters.topic, parameters)}
+          />
+          <CourseLibrary
+            courses={savedCourses}
+            activeCourseId={activeCourseId}
+            t={t}
+            onOpen={handleOpenCourse}
+            onRename={handleRenameCourse}
+            onDelete={handleDeleteCourse}
+            onImport={handleImportCourse}
+          />
+          <ProgressDashboard courses={savedCourses} t={t} onOpen={handleOpenCourse} />
+          <TerminologyEditor terms={terms} language={language} t={t} onChange={handleTermsChange} />
+          {canVerifyCertificates && <CertificateVerifier t={t} initialCode={verifyCode} />}
         </div>
-      </div>
+      )}
 
-      {isGeneratingCourse && (
+      {isGeneratingCourse && !course && (
         <div className="loader" aria-live="polite">
           <div className="spinner"></div>
         </div>
@@ -315,6 +882,26 @@ const App = () => {
 
       {error && <div className="error" role="alert">{error}</div>}
 
+      {shareNotice && (
+        <div className={`share-notice ${shareNotice.status === 'invalid' ? 'share-notice-invalid' : ''}`} role="status">
+          <span>
+            {shareNotice.status === 'partial'
+              ? formatMessage(t.sharePartReceived, { received: shareNotice.received, total: shareNotice.total })
+              : t.shareLinkInvalid}
+          </span>
+          <button type="button" onClick={() => setShareNotice(null)} aria-label={t.closeModal}>×</button>
+        </div>
+      )}
+
+      {course && courseLanguage && courseLanguage !== language && !isGeneratingCourse && (
+        <div className="translate-banner" role="status">
+          <span>{t.courseInOtherLanguage}</span>
+          <button className="level-button" onClick={handleTranslateCourse} disabled={isTranslatingCourse}>
+            {isTranslatingCourse ? t.translatingCourse : formatMessage(t.translateCourse, { language: LOCALES[language].nativeName })}
+          </button>
+        </div>
+      )}
+
       {course && (
         <Suspense fallback={
           <div className="loader" aria-live="polite">
@@ -323,12 +910,28 @@ const App = () => {
         }>
           <LazyCourseDisplay
             course={course}
+            courseLanguage={contentLanguage}
+            courseLevel={courseLevel}
             t={t}
+            quiz={quiz}
             quizAnswers={quizAnswers}
             quizFeedback={quizFeedback}
             quizExplanations={quizExplanations}
             explanationLoading={explanationLoading}
+            quizGrades={quizGrades}
             handleAnswerSelection={handleAnswerSelection}
+            currentAttempt={currentAttempt}
+            quizAttempts={quizAttempts}
+            onRetakeQuiz={handleRetakeQuiz}
+            tutorChats={tutorChats}
+            tutorLoading={tutorLoading}
+            onSendTutorMessage={handleTutorMessage}
+            profile={activeProfile}
+            lessonProgress={activeSavedCourse?.lessonProgress ?? {}}
+            onLessonOpen={handleLessonOpen}
+            onLessonRead={handleLessonRead}
+            bilingualVersions={bilingualVersions}
+            termFlags={termFlags}
             loadingOutline={loadingOutline}
             loadingLessons={loadingLessons}
             loadingSummary={loadingSummary}
@@ -1,9 +1,58 @@
 // interfaces.ts
+import type { LocaleCode } from './i18n';
+
+export type QuestionType =
+  | 'multiple-choice'
+  | 'true-false'
+  | 'multi-select'
+  | 'fill-in-the-blank'
+  | 'ordering'
+  | 'matching'
+  | 'short-answer';
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'multiple-choice',
+  'true-false',
+  'multi-select',
+  'fill-in-the-blank',
+  'ordering',
+  'matching',
+  'short-answer',
+];
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
 export interface QuizItem {
   question: string;
-  type: 'multiple-choice' | 'true-false';
+  type: QuestionType;
+  // Choices shown to the learner. For 'ordering' these are the steps in scrambled order,
+  // for 'matching' the right-hand values, and for 'fill-in-the-blank' they are unused.
   options: string[];
+  // Human-readable correct answer, also used by the downloads. For 'multiple-choice' and
+  // 'true-false' it is the exact correct option.
   correctAnswer: string;
+  correctAnswers?: string[]; // 'multi-select': every correct option
+  acceptedAnswers?: string[]; // 'fill-in-the-blank': accepted variants
+  correctOrder?: string[]; // 'ordering': the options in their correct sequence
+  matchingPairs?: MatchingPair[]; // 'matching': the correct left/right pairs
+  rubric?: string[]; // 'short-answer': key points a complete answer covers; correctAnswer holds a model answer
+}
+
+// A learner's answer: a single option or text for 'multiple-choice', 'true-false' and
+// 'fill-in-the-blank'; the selected options for 'multi-select'; the submitted sequence for
+// 'ordering'; for 'matching' the chosen right-hand value for each pair, in pair order; and
+// the free text for 'short-answer'.
+export type QuizResponse = string | string[];
+
+// The model's rubric-based grade for a 'short-answer' response
+export interface AnswerGrade {
+  score: number; // 0 to 100
+  correctPoints: string[]; // What the response got right
+  missingPoints: string[]; // Rubric points the response missed or got wrong
+  feedback: string;
 }
 
 export interface Lesson {
@@ -11,6 +60,13 @@ export interface Lesson {
   content: string;
 }
 
+// A key term of the course with its meaning
+export interface GlossaryEntry {
+  term: string; // As written in the lessons, in the course language
+  english: string; // English equivalent; the same as the term for English courses
+  definition: string; // Short definition in the course language
+}
+
 export interface Course {
   title: string;
   outline: string[];
@@ -18,6 +74,76 @@ export interface Course {
   summary: string;
   quiz: QuizItem[];
   lessonSummaries: string[];
+  glossary?: GlossaryEntry[]; // Missing from courses generated before glossaries were added
+}
+
+// One finished run through a course's Knowledge Check
+export interface QuizAttempt {
+  completedAt: number; // Epoch milliseconds
+  score: number;
+  total: number;
+  percentage: number;
+  passed: boolean;
+  review: {
+    question: string;
+    selectedAnswer: string | null;
+    correctAnswer: string;
+    correct: boolean;
+    credit: number; // 0 to 1; partially correct answers earn partial credit
+  }[];
+}
+
+// Course shape chosen in the custom course form
+export interface CourseParameters {
+  topic: string;
+  audience: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  lessonCount: number;
+  questionMix: Partial<Record<QuestionType, number>>; // Number of quiz questions per type
+  lessonLength: 'short' | 'medium' | 'long';
+}
+
+// A generated course persisted in the local IndexedDB library.
+export interface SavedCourse {
+  id: string;
+  profileId?: string; // Learner profile the course belongs to; missing on courses saved before profiles existed
+  name: string; // Display name; starts as course.title and can be renamed by the learner
+  topic: string;
+  language: LocaleCode;
+  model: string;
+  parameters?: CourseParameters; // Only set for courses created from the custom course form
+  createdAt: number; // Epoch milliseconds
+  course: Course;
+  attempts?: QuizAttempt[]; // Knowledge Check history, oldest first
+  tutorChats?: Record<number, ChatMessage[]>; // Lesson tutor conversations, keyed by lesson index
+  lessonProgress?: Record<number, LessonProgress>; // Reading of the lessons, keyed by lesson index
+  studyDays?: string[]; // Local dates (YYYY-MM-DD) on which a lesson of the course was read
+  languageVersions?: Partial<Record<LocaleCode, string>>; // Ids of this course's translations, including its own id
+}
+
+// How much a learner has read of one lesson
+export interface LessonProgress {
+  openCount: number; // Times the lesson was opened
+  firstOpenedAt: number; // Epoch milliseconds
+  lastOpenedAt: number;
+  readingMs: number; // Time the lesson was open while the app was visible
+  completedAt?: number; // Set once the reading time reached the lesson's completion threshold
+}
+
+// One turn of a lesson tutor conversation
+export interface ChatMessage {
+  role: 'learner' | 'tutor';
+  text: string;
+  createdAt: number; // Epoch milliseconds
+  failed?: boolean; // A tutor reply that could not be generated; never saved or sent back to the model
+}
+
+// A learner sharing the device. Courses, progress, feedback and preferences are kept per profile.
+export interface LearnerProfile {
+  id: string;
+  name: string; // Empty for the profile that holds the data from before profiles existed
+  createdAt: number; // Epoch milliseconds
+  pinHash?: string; // SHA-256 of the optional PIN, salted with the profile id
 }
 
 export interface FeedbackData {
@@ -25,202 +151,19 @@ export interface FeedbackData {
   comment: string;
 }
 
-export interface Translations {
-  so: {
-    title: string;
-    subtitle: string;
-    generatingError: string;
-    courseOutline: string;
-    mainLessons: string;
-    lessonSummaryPrefix: string;
-    courseSummary: string;
-    knowledgeCheck: string;
-    trueOption: string;
-    falseOption: string;
-    correctFeedback: string;
-    incorrectFeedback: string;
-    explanationLabel: string;
-    loadingExplanation: string;
-    failedExplanation: string;
-    loadingContent: string;
-    downloadCourse: string;
-    scanToDownloadApp: string; // This key is now unused by the download bar itself, but kept for historical context or if other uses arise.
-    // New download related translations
-    chooseDownloadFormat: string;
-    formatMarkdown: string;
-    formatPlainText: string;
-    confirmDownload: string;
-    cancelDownload: string;
-    // New additions for reload and app download QR dialog
-    reloadPage: string;
-    getApp: string;
-    installApp: string; // Added for PWA install prompt
-    appDownloadTitle: string;
-    scanToDownloadAppModal: string;
-    closeModal: string;
-    qrCodeDescription: string; // New for QR code accessibility
-    selectLanguage: string; // New for language selector accessibility
-    // New feedback related translations
-    rateCourse: string;
-    rateLesson: string;
-    howToRate: string;
-    yourComments: string;
-    submitFeedback: string;
-    thankYouFeedback: string;
-    editFeedback: string;
-    starRatingLabel: string; // For ARIA label of stars
-  };
-  en: {
-    title: string;
-    subtitle: string;
-    generatingError: string;
-    courseOutline: string;
-    mainLessons: string;
-    lessonSummaryPrefix: string;
-    courseSummary: string;
-    knowledgeCheck: string;
-    trueOption: string;
-    falseOption: string;
-    correctFeedback: string;
-    incorrectFeedback: string;
-    explanationLabel: string;
-    loadingExplanation: string;
-    failedExplanation: string;
-    loadingContent: string;
-    downloadCourse: string;
-    scanToDownloadApp: string; // This key is now unused by the download bar itself, but kept for historical context or if other uses arise.
-    // New download related translations
-    chooseDownloadFormat: string;
-    formatMarkdown: string;
-    formatPlainText: string;
-    confirmDownload: string;
-    cancelDownload: string;
-    // New additions for reload and app download QR dialog
-    reloadPage: string;
-    getApp: string;
-    installApp: string; // Added for PWA install prompt
-    appDownloadTitle: string;
-    scanToDownloadAppModal: string;
-    closeModal: string;
-    qrCodeDescription: string; // New for QR code accessibility
-    selectLanguage: string; // New for language selector accessibility
-    // New feedback related translations
-    rateCourse: string;
-    rateLesson: string;
-    howToRate: string;
-    yourComments: string;
-    submitFeedback: string;
-    thankYouFeedback: string;
-    editFeedback: string;
-    starRatingLabel: string; // For ARIA label of stars
-  };
+// An entry of the trainer-managed terminology base
+export interface TermEntry {
+  id: string;
+  source: string; // The English source term, e.g. "neural network"
+  renderings: Partial<Record<LocaleCode, string>>; // Approved term per locale; English falls back to `source`
+  forbidden: Partial<Record<LocaleCode, string[]>>; // Variants that must not be used, per locale
 }
 
-export const translations: Translations = {
-  so: {
-    title: 'Geeddi – AI Learning Academy',
-    subtitle: 'CASHARO TAGNOOLAJIGA AI LAGU BARANAYO OO TAXANE AH',
-    generatingError: 'Way ku guuldareysatay soo saarista casharka. Fadlan isku day mar kale.',
-    courseOutline: 'Dulmarka Casharka',
-    mainLessons: 'Casharada Muhiimka ah',
-    lessonSummaryPrefix: 'Soo Koobid',
-    courseSummary: 'Qoraal Kooban',
-    knowledgeCheck: 'Hubinta Aqoonta',
-    trueOption: 'Run',
-    falseOption: 'Been',
-    correctFeedback: 'Waa Sax!',
-    incorrectFeedback: 'Waa Khalad!',
-    explanationLabel: 'Sharaxaad:',
-    loadingExplanation: 'Sharaxaada ayaa la soo saarayaa...',
-    failedExplanation: 'Way ku guuldareysatay soo saarista sharaxaada.',
-    loadingContent: 'Waxa la soo saarayaa macluumaadka...',
-    downloadCourse: 'Soo Degso Casharka',
-    scanToDownloadApp: 'Ku soo degso abka adoo iskaan gareynaya',
-    // New download related translations
-    chooseDownloadFormat: 'Dooro qaabka soo dejinta',
-    formatMarkdown: 'Qaabka Markdown',
-    formatPlainText: 'Qoraal Cad',
-    confirmDownload: 'Xaqiiji Soo Dejinta',
-    cancelDownload: 'Jooji',
-    // New additions for reload and app download QR dialog
-    reloadPage: 'Dib u shub bogga',
-    getApp: 'Hel App-ka',
-    installApp: 'Ku rakib App-ka', // Somali for "Install App"
-    appDownloadTitle: 'Ku soo degso Geeddi App-ka',
-    scanToDownloadAppModal: 'Fadlan ku iskaan garee QR code-kan si aad u soo degsato app-ka.',
-    closeModal: 'Xir',
-    qrCodeDescription: 'QR code si aad u soo degsato barnaamijka Geeddi',
-    selectLanguage: 'Dooro Luqadda',
-    rateCourse: 'Qiimee Casharkan',
-    rateLesson: 'Qiimee Casharkan',
-    howToRate: 'Fadlan qiimee casharkan (1 = aad u liita, 5 = aad u wanaagsan):',
-    yourComments: 'Faalooyinkaaga (optional):',
-    submitFeedback: 'Dir Faalada',
-    thankYouFeedback: 'Waad ku mahadsan tahay faaladaada!',
-    editFeedback: 'Wax ka beddel Faalada',
-    starRatingLabel: 'xiddig', // 'star'
-  },
-  en: {
-    title: 'Geeddi – AI Learning Academy',
-    subtitle: 'A SERIES OF LESSONS TO LEARN AI TECHNOLOGY',
-    generatingError: 'Failed to generate the course. Please try again.',
-    courseOutline: 'Course Outline',
-    mainLessons: 'Main Lessons',
-    lessonSummaryPrefix: 'Summary',
-    courseSummary: 'Brief Summary',
-    knowledgeCheck: 'Knowledge Check',
-    trueOption: 'True',
-    falseOption: 'False',
-    correctFeedback: 'Correct!',
-    incorrectFeedback: 'Wrong!',
-    explanationLabel: 'Explanation:',
-    loadingExplanation: 'Loading explanation...',
-    failedExplanation: 'Failed to generate explanation.',
-    loadingContent: 'Loading content...',
-    downloadCourse: 'Download Course',
-    scanToDownloadApp: 'Scan to Download App',
-    // New download related translations
-    chooseDownloadFormat: 'Choose Download Format',
-    formatMarkdown: 'Markdown Format',
-    formatPlainText: 'Plain Text',
-    confirmDownload: 'Confirm Download',
-    cancelDownload: 'Cancel',
-    // New additions for reload and app download QR dialog
-    reloadPage: 'Reload Page',
-    getApp: 'Get App',
-    installApp: 'Install App', // English for "Install App"
-    appDownloadTitle: 'Download Geeddi App',
-    scanToDownloadAppModal: 'Please scan this QR code to download the app.',
-    closeModal: 'Close',
-    qrCodeDescription: 'QR code to download Geeddi app',
-    selectLanguage: 'Select Language',
-    rateCourse: 'Rate This Course',
-    rateLesson: 'Rate This Lesson',
-    howToRate: 'Please rate this (1 = very poor, 5 = excellent):',
-    yourComments: 'Your Comments (optional):',
-    submitFeedback: 'Submit Feedback',
-    thankYouFeedback: 'Thank you for your feedback!',
-    editFeedback: 'Edit Feedback',
-    starRatingLabel: 'star',
-  }
-};
-
-export interface CourseLevels {
-  so: { title: string; topic: string; }[];
-  en: { title: string; topic: string; }[];
+// A forbidden term variant found in a course
+export interface TermFlag {
+  section: 'title' | 'outline' | 'lesson' | 'summary' | 'glossary' | 'quiz';
+  index: number; // Outline item, lesson, glossary entry or question index; 0 for the title and summary
+  found: string; // The text as it appears in the course
+  approved: string;
+  source: string;
 }
-
-export const courseLevels: CourseLevels = {
-  so: [
-    { title: 'Aasaaska Sirdoonka Macmalka ah (Heerka Bilowga)', topic: 'AI Fundamentals for beginners' },
-    { title: 'Fikradaha Barashada Mashiinka (Heerka Dhexe)', topic: 'Intermediate Machine Learning Concepts' },
-    { title: 'Barashada Qoto Dheer (Heerka Sare)', topic: 'Advanced Deep Learning' },
-    { title: 'Isticmaalka Sare ee AI (Heer Jaamacadeed)', topic: 'University-Level Advanced AI Applications' },
-  ],
-  en: [
-    { title: 'AI Fundamentals (Beginner Level)', topic: 'AI Fundamentals for beginners' },
-    { title: 'Machine Learning Concepts (Intermediate)', topic: 'Intermediate Machine Learning Concepts' },
-    { title: 'Deep Learning (Advanced)', topic: 'Advanced Deep Learning' },
-    { title: 'Advanced AI Applications (University Level)', topic: 'University-Level Advanced AI Applications' },
-  ]
-};
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { SavedCourse } from './interfaces';
+import { CourseLevel, LocaleCode } from './i18n';
+
+// The predefined course levels as a learning path: each level unlocks once the
+// previous level's Knowledge Check has been passed. Progress is read from the
+// course library, where a level's courses are the ones saved with its topic
+// (translations keep the topic of their source).
+
+export type PathStepStatus = 'locked' | 'available' | 'in-progress' | 'completed';
+
+export interface PathStep {
+  level: CourseLevel;
+  status: PathStepStatus;
+  course: SavedCourse | null; // The course opened for this level, once one has been generated
+  bestPercentage: number | null; // Best Knowledge Check score across the level's courses
+}
+
+const MAX_COVERED_TOPICS = 40; // Keeps the generation prompt short on the last level
+
+const hasPassed = (saved: SavedCourse) => (saved.attempts ?? []).some(attempt => attempt.passed);
+
+// Prefers a passed course in the interface language, then any passed one, then the newest
+const pickCourse = (candidates: SavedCourse[], language: LocaleCode): SavedCourse | null =>
+  candidates.find(saved => saved.language === language && hasPassed(saved))
+  ?? candidates.find(hasPassed)
+  ?? candidates.find(saved => saved.language === language)
+  ?? candidates[0]
+  ?? null;
+
+// `courses` is the library, newest first
+export const buildLearningPath = (levels: CourseLevel[], courses: SavedCourse[], language: LocaleCode): PathStep[] => {
+  const steps: PathStep[] = [];
+  levels.forEach((level, index) => {
+    const candidates = courses.filter(saved => saved.topic === level.topic);
+    const percentages = candidates.flatMap(saved => (saved.attempts ?? []).map(attempt => attempt.percentage));
+    const unlocked = index === 0 || steps[index - 1].status === 'completed';
+
+    let status: PathStepStatus = 'locked';
+    if (unlocked) {
+      if (candidates.some(hasPassed)) status = 'completed';
+      else status = candidates.length > 0 ? 'in-progress' : 'available';
+    }
+    steps.push({
+      level,
+      status,
+      course: pickCourse(candidates, language),
+      bestPercentage: percentages.length > 0 ? Math.max(...percentages) : null,
+    });
+  });
+  return steps;
+};
+
+// Topics of the levels before `index`, taken from their courses' outlines
+export const coveredTopics = (steps: PathStep[], index: number): string[] => {
+  const topics = steps
+    .slice(0, index)
+    .flatMap(step => step.course?.course.outline ?? [])
+    .map(topic => topic.trim())
+    .filter(topic => topic !== '');
+  return [...new Set(topics)].slice(0, MAX_COVERED_TOPICS);
+};
+
+export const buildCoveredTopicsInstruction = (topics: string[]): string => {
+  if (topics.length === 0) return '';
+  return `
+Learning path: this course is the next level for a learner who has already completed courses covering these topics:
+${topics.map(topic => `- ${topic}`).join('\n')}
+Build on that knowledge instead of repeating it. Do not teach these topics again; at most recall one briefly where a new lesson depends on it, and spend the lessons and quiz on new material.
+`;
+};
@@ -0,0 +1,376 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { ChatMessage, Course } from './interfaces';
+import type { LocaleCode } from './i18n';
+import { mockCourses } from './mockFixtures';
+
+// Provider abstraction for every LLM call the app makes. The active provider
+// and its models come from build-time configuration (see vite.config.ts).
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface CourseGenerationRequest {
+  prompt: string;
+  schema: Schema;
+  language: LocaleCode;
+  topic: string;
+}
+
+export interface AnswerExplanationRequest {
+  prompt: string;
+  language: LocaleCode;
+  question: string;
+  correctAnswer: string;
+  selectedAnswer: string;
+}
+
+export interface AnswerGradingRequest {
+  prompt: string;
+  schema: Schema;
+  language: LocaleCode;
+  question: string;
+  rubric: string[];
+  modelAnswer: string;
+  response: string;
+}
+
+export interface TutorChatRequest {
+  instruction: string; // System instruction grounding the tutor in one lesson
+  messages: ChatMessage[]; // The conversation so far, ending with the learner's new message
+  language: LocaleCode;
+  lessonContent: string;
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  courseModel: string;
+  explanationModel: string;
+  // Yields the course JSON text in chunks as the model produces it
+  streamCourse(request: CourseGenerationRequest): AsyncIterable<string>;
+  // Returns the complete course JSON text in one response
+  generateCourse(request: CourseGenerationRequest): Promise<string>;
+  explainAnswer(request: AnswerExplanationRequest): Promise<string>;
+  // Returns the rubric grade of a short-answer response as JSON text
+  gradeAnswer(request: AnswerGradingRequest): Promise<string>;
+  // Returns the tutor's reply to the last learner message
+  chatWithTutor(request: TutorChatRequest): Promise<string>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  courseModel?: string;
+  explanationModel?: string;
+  baseUrl?: string; // OpenAI-compatible servers only
+  apiKey?: string;
+}
+
+class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini';
+  readonly courseModel: string;
+  readonly explanationModel: string;
+  private readonly ai: GoogleGenAI;
+
+  constructor(config: ProviderConfig) {
+    this.courseModel = config.courseModel || 'gemini-2.5-pro';
+    this.explanationModel = config.explanationModel || 'gemini-2.5-flash'; // Using a lighter model for explanations
+    this.ai = new GoogleGenAI({ apiKey: config.apiKey });
+  }
+
+  async *streamCourse(request: CourseGenerationRequest): AsyncIterable<string> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.courseModel,
+      contents: request.prompt,
+      config: { responseMimeType: "application/json", responseSchema: request.schema },
+    });
+    for await (const chunk of stream) {
+      yield chunk.text ?? '';
+    }
+  }
+
+  async generateCourse(request: CourseGenerationRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.courseModel,
+      contents: request.prompt,
+      config: { responseMimeType: "application/json", responseSchema: request.schema },
+    });
+    return (response.text ?? '').trim();
+  }
+
+  async explainAnswer(request: AnswerExplanationRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.explanationModel,
+      contents: request.prompt,
+      config: {
+        temperature: 0.7,
+        maxOutputTokens: 150,
+        thinkingConfig: { thinkingBudget: 50 }
+      }
+    });
+    return (response.text ?? '').trim();
+  }
+
+  async gradeAnswer(request: AnswerGradingRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.explanationModel,
+      contents: request.prompt,
+      config: {
+        temperature: 0.2, // Grades should be repeatable
+        responseMimeType: "application/json",
+        responseSchema: request.schema,
+        thinkingConfig: { thinkingBudget: 256 }
+      }
+    });
+    return (response.text ?? '').trim();
+  }
+
+  async chatWithTutor(request: TutorChatRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.explanationModel,
+      contents: request.messages.map(message => ({
+        role: message.role === 'learner' ? 'user' : 'model',
+        parts: [{ text: message.text }],
+      })),
+      config: {
+        systemInstruction: request.instruction,
+        temperature: 0.5,
+        maxOutputTokens: 600,
+        thinkingConfig: { thinkingBudget: 100 }
+      }
+    });
+    return (response.text ?? '').trim();
+  }
+}
+
+// Converts a Gemini response schema (upper-case OpenAPI types) to plain JSON Schema.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type && schema.type !== Type.TYPE_UNSPECIFIED) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    result.additionalProperties = false;
+  }
+  if (schema.minItems) result.minItems = Number(schema.minItems);
+  if (schema.maxItems) result.maxItems = Number(schema.maxItems);
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+// Talks to a self-hosted server exposing the OpenAI chat completions API
+// (llama.cpp, vLLM, Ollama, LM Studio, ...).
+class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id = 'openai-compatible';
+  readonly courseModel: string;
+  readonly explanationModel: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(config: ProviderConfig) {
+    this.courseModel = config.courseModel || 'local-model';
+    this.explanationModel = config.explanationModel || this.courseModel;
+    this.baseUrl = (config.baseUrl || 'http://localhost:8080/v1').replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+  }
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`LLM server responded with ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+
+  private courseBody(request: CourseGenerationRequest, stream: boolean): Record<string, unknown> {
+    return {
+      model: this.courseModel,
+      messages: [{ role: 'user', content: request.prompt }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'course', schema: toJsonSchema(request.schema) },
+      },
+      stream,
+    };
+  }
+
+  async *streamCourse(request: CourseGenerationRequest): AsyncIterable<string> {
+    const response = await this.post(this.courseBody(request, true));
+    if (!response.body) throw new Error('LLM server returned an empty stream.');
+
+    // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]"
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+
+  async generateCourse(request: CourseGenerationRequest): Promise<string> {
+    const response = await this.post(this.courseBody(request, false));
+    const data = await response.json();
+    return (data.choices?.[0]?.message?.content ?? '').trim();
+  }
+
+  async explainAnswer(request: AnswerExplanationRequest): Promise<string> {
+    const response = await this.post({
+      model: this.explanationModel,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: 0.7,
+      max_tokens: 150,
+    });
+    const data = await response.json();
+    return (data.choices?.[0]?.message?.content ?? '').trim();
+  }
+
+  async gradeAnswer(request: AnswerGradingRequest): Promise<string> {
+    const response = await this.post({
+      model: this.explanationModel,
+      messages: [{ role: 'user', content: request.prompt }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'answer_grade', schema: toJsonSchema(request.schema) },
+      },
+      temperature: 0.2,
+    });
+    const data = await response.json();
+    return (data.choices?.[0]?.message?.content ?? '').trim();
+  }
+
+  async chatWithTutor(request: TutorChatRequest): Promise<string> {
+    const response = await this.post({
+      model: this.explanationModel,
+      messages: [
+        { role: 'system', content: request.instruction },
+        ...request.messages.map(message => ({
+          role: message.role === 'learner' ? 'user' : 'assistant',
+          content: message.text,
+        })),
+      ],
+      temperature: 0.5,
+      max_tokens: 400,
+    });
+    const data = await response.json();
+    return (data.choices?.[0]?.message?.content ?? '').trim();
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Longer words of a text, used by the mock provider's keyword heuristics.
+const keywords = (text: string): string[] =>
+  text.toLowerCase().replace(/['’]/g, '').split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 3);
+
+// Deterministic provider backed by fixtures; useful offline and in demos.
+class MockProvider implements LlmProvider {
+  readonly id = 'mock';
+  readonly courseModel = 'mock-fixture';
+  readonly explanationModel = 'mock-fixture';
+
+  private courseJson(request: CourseGenerationRequest): string {
+    const fixture: Course = mockCourses[request.language === 'so' ? 'so' : 'en']; // Other locales get the English fixture
+    return JSON.stringify({ ...fixture, title: `${fixture.title} (${request.topic})` });
+  }
+
+  async *streamCourse(request: CourseGenerationRequest): AsyncIterable<string> {
+    const json = this.courseJson(request);
+    const chunkSize = 80;
+    for (let i = 0; i < json.length; i += chunkSize) {
+      await delay(40); // Simulate network pacing so streaming UI can be exercised
+      yield json.slice(i, i + chunkSize);
+    }
+  }
+
+  async generateCourse(request: CourseGenerationRequest): Promise<string> {
+    return this.courseJson(request);
+  }
+
+  async explainAnswer(request: AnswerExplanationRequest): Promise<string> {
+    await delay(200);
+    return request.language === 'so'
+      ? `Jawaabta saxda ah waa "${request.correctAnswer}". "${request.selectedAnswer}" ma aha jawaab sax ah su'aashan.`
+      : `The correct answer is "${request.correctAnswer}". "${request.selectedAnswer}" does not answer this question correctly.`;
+  }
+
+  // Counts a rubric point as covered when most of its longer words appear in the response.
+  async gradeAnswer(request: AnswerGradingRequest): Promise<string> {
+    await delay(200);
+    const responseWords = new Set(keywords(request.response));
+    const covered = request.rubric.filter(point => {
+      const pointWords = keywords(point);
+      return pointWords.length > 0 && pointWords.filter(word => responseWords.has(word)).length * 2 >= pointWords.length;
+    });
+    const missing = request.rubric.filter(point => !covered.includes(point));
+    const score = request.rubric.length > 0 ? Math.round((covered.length / request.rubric.length) * 100) : 0;
+    return JSON.stringify({
+      score,
+      correctPoints: covered,
+      missingPoints: missing,
+      feedback: request.language === 'so'
+        ? `Jawaabtaadu waxay daboolaysaa ${covered.length} ka mid ah ${request.rubric.length} qodob.`
+        : `Your answer covers ${covered.length} of ${request.rubric.length} key points.`,
+    });
+  }
+
+  // Treats a question as on-topic when it shares a keyword with the lesson.
+  async chatWithTutor(request: TutorChatRequest): Promise<string> {
+    await delay(300);
+    const question = request.messages[request.messages.length - 1]?.text ?? '';
+    const lessonWords = new Set(keywords(request.lessonContent));
+    const shared = keywords(question).filter(word => lessonWords.has(word));
+    if (shared.length === 0) {
+      return request.language === 'so'
+        ? "Waan ka xumahay, waxaan kaliya ka jawaabi karaa su'aalaha ku saabsan casharkan. Isku day inaad wax ka weydiiso casharka."
+        : 'Sorry, I can only help with questions about this lesson. Try asking something about the lesson instead.';
+    }
+    return request.language === 'so'
+      ? `Su'aal fiican. Casharku wuxuu ka hadlayaa "${shared[0]}": dib u eeg qaybta casharka ee ku saabsan, kadibna isku day inaad erayadaada ku sharaxdo.`
+      : `Good question. The lesson covers "${shared[0]}": re-read the part of the lesson about it, then try explaining it in your own words.`;
+  }
+}
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai-compatible', 'mock'];
+
+// Values are substituted at build time by Vite's `define`.
+export const readProviderConfig = (): ProviderConfig => {
+  const provider = (process.env.LLM_PROVIDER || 'gemini') as ProviderId;
+  if (!PROVIDER_IDS.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Expected one of: ${PROVIDER_IDS.join(', ')}.`);
+  }
+  return {
+    provider,
+    courseModel: process.env.LLM_COURSE_MODEL,
+    explanationModel: process.env.LLM_EXPLANATION_MODEL,
+    baseUrl: process.env.LLM_BASE_URL,
+    apiKey: provider === 'gemini' ? process.env.API_KEY : process.env.LLM_API_KEY,
+  };
+};
+
+export const createProvider = (config: ProviderConfig = readProviderConfig()): LlmProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider(config);
+    case 'mock':
+      return new MockProvider();
+  }
+};
@@ -0,0 +1,292 @@
+import type { LocaleMessages } from '../i18n';
+
+// Arabic messages (right-to-left)
+export const ar: LocaleMessages = {
+  title: 'Geeddi – أكاديمية تعلّم الذكاء الاصطناعي',
+  subtitle: 'سلسلة دروس لتعلّم تقنيات الذكاء الاصطناعي',
+  generatingError: 'تعذّر إنشاء الدورة. يُرجى المحاولة مرة أخرى.',
+  courseOutline: 'مخطط الدورة',
+  mainLessons: 'الدروس الرئيسية',
+  lessonSummaryPrefix: 'الملخص',
+  courseSummary: 'ملخص موجز',
+  knowledgeCheck: 'اختبار المعرفة',
+  trueOption: 'صحيح',
+  falseOption: 'خطأ',
+  correctFeedback: 'إجابة صحيحة!',
+  incorrectFeedback: 'إجابة خاطئة!',
+  explanationLabel: 'الشرح:',
+  loadingExplanation: 'جارٍ تحميل الشرح...',
+  failedExplanation: 'تعذّر إنشاء الشرح.',
+  loadingContent: 'جارٍ تحميل المحتوى...',
+  downloadCourse: 'تنزيل الدورة',
+  scanToDownloadApp: 'امسح الرمز لتنزيل التطبيق', // No longer shown by the download bar
+  // New download related translations
+  chooseDownloadFormat: 'اختر صيغة التنزيل',
+  formatMarkdown: 'صيغة Markdown',
+  formatPlainText: 'نص عادي',
+  confirmDownload: 'تأكيد التنزيل',
+  cancelDownload: 'إلغاء',
+  // New additions for reload and app download QR dialog
+  reloadPage: 'إعادة تحميل الصفحة',
+  getApp: 'احصل على التطبيق',
+  installApp: 'تثبيت التطبيق',
+  appDownloadTitle: 'تنزيل تطبيق Geeddi',
+  scanToDownloadAppModal: 'يُرجى مسح رمز QR هذا لتنزيل التطبيق.',
+  closeModal: 'إغلاق',
+  qrCodeDescription: 'رمز QR لتنزيل تطبيق Geeddi',
+  selectLanguage: 'اختر اللغة',
+  // New feedback related translations
+  rateCourse: 'قيّم هذه الدورة',
+  rateLesson: 'قيّم هذا الدرس',
+  howToRate: 'يُرجى التقييم (1 = ضعيف جدًا، 5 = ممتاز):',
+  yourComments: 'تعليقاتك (اختياري):',
+  submitFeedback: 'إرسال التقييم',
+  thankYouFeedback: 'شكرًا لك على ملاحظاتك!',
+  editFeedback: 'تعديل التقييم',
+  starRatingLabel: 'نجمة',
+  // Course library translations
+  courseLibrary: 'مكتبة الدورات',
+  libraryEmpty: 'لا توجد دورات محفوظة بعد.',
+  openCourse: 'فتح',
+  renameCourse: 'إعادة تسمية',
+  deleteCourse: 'حذف',
+  saveName: 'حفظ',
+  confirmDeleteCourse: 'هل أنت متأكد من حذف هذه الدورة؟',
+  savedOn: 'حُفظت في',
+  lessonCount: {
+    zero: 'لا توجد دروس',
+    one: 'درس واحد',
+    two: 'درسان',
+    few: '{count} دروس',
+    many: '{count} درسًا',
+    other: '{count} درس',
+  },
+  // Custom course form translations
+  customCourse: 'أنشئ دورة مخصصة',
+  topicLabel: 'الموضوع',
+  topicPlaceholder: 'مثال: الذكاء الاصطناعي للعاملين في الإرشاد الزراعي',
+  audienceLabel: 'الفئة المستهدفة',
+  audiencePlaceholder: 'مثال: موظفو خدمة العملاء',
+  difficultyLabel: 'مستوى الصعوبة',
+  difficultyBeginner: 'مبتدئ',
+  difficultyIntermediate: 'متوسط',
+  difficultyAdvanced: 'متقدم',
+  lessonCountLabel: 'عدد الدروس',
+  multipleChoiceCountLabel: 'أسئلة الاختيار من متعدد',
+  trueFalseCountLabel: 'أسئلة صح أو خطأ',
+  lessonLengthLabel: 'طول الدرس',
+  lengthShort: 'قصير',
+  lengthMedium: 'متوسط',
+  lengthLong: 'طويل',
+  generateCustomCourse: 'إنشاء الدورة',
+  // Quiz results translations
+  quizResults: 'نتائج الاختبار',
+  yourScore: 'نتيجتك',
+  quizPassed: 'لقد نجحت!',
+  quizFailed: 'لم تنجح. حاول مرة أخرى.',
+  passThresholdNote: 'يتطلب النجاح {threshold}% على الأقل.',
+  yourAnswerLabel: 'إجابتك',
+  correctAnswerLabel: 'الإجابة الصحيحة',
+  noAnswer: 'لم تتم الإجابة',
+  retakeQuiz: 'إعادة الاختبار',
+  attemptHistory: 'سجل المحاولات',
+  attemptLabel: 'المحاولة',
+  attemptCount: {
+    zero: 'لا توجد محاولات',
+    one: 'محاولة واحدة',
+    two: 'محاولتان',
+    few: '{count} محاولات',
+    many: '{count} محاولة',
+    other: '{count} محاولة',
+  },
+  // Question type translations
+  multiSelectCountLabel: 'أسئلة متعددة الإجابات',
+  fillInTheBlankCountLabel: 'أسئلة املأ الفراغ',
+  orderingCountLabel: 'أسئلة الترتيب',
+  matchingCountLabel: 'أسئلة المطابقة',
+  selectAllThatApply: 'اختر كل الإجابات الصحيحة',
+  typeYourAnswer: 'اكتب إجابتك',
+  arrangeInOrder: 'رتّب العناصر بالترتيب الصحيح',
+  matchEachItem: 'طابق كل عنصر مع ما يقابله',
+  chooseMatch: 'اختر...',
+  moveUp: 'نقل لأعلى',
+  moveDown: 'نقل لأسفل',
+  submitAnswer: 'إرسال الإجابة',
+  partiallyCorrectFeedback: 'صحيحة جزئيًا',
+  // Short-answer translations
+  shortAnswerCountLabel: 'أسئلة الإجابة القصيرة',
+  writeYourAnswer: 'اكتب إجابتك بكلماتك الخاصة',
+  gradingAnswer: 'جارٍ تقييم إجابتك...',
+  failedGrading: 'تعذّر تقييم إجابتك.',
+  gradeScoreLabel: 'الدرجة',
+  whatWasRight: 'ما أصبت فيه',
+  whatWasMissing: 'ما كان ناقصًا',
+  modelAnswerLabel: 'إجابة نموذجية',
+  // Lesson tutor translations
+  lessonTutor: 'اسأل المعلّم',
+  tutorIntro: 'هل لديك سؤال عن هذا الدرس؟ يجيب المعلّم استنادًا إلى الدرس والدورة.',
+  tutorPlaceholder: 'اكتب سؤالك...',
+  sendMessage: 'إرسال',
+  tutorThinking: 'المعلّم يفكّر...',
+  learnerLabel: 'أنت',
+  tutorLabel: 'المعلّم',
+  failedTutorReply: 'تعذّر على المعلّم الرد. يُرجى المحاولة مرة أخرى.',
+  // Course translation translations
+  courseInOtherLanguage: 'هذه الدورة مكتوبة بلغة أخرى.',
+  translateCourse: 'ترجمة إلى {language}',
+  translatingCourse: 'جارٍ ترجمة الدورة...',
+  translationError: 'تعذّرت ترجمة الدورة. يُرجى المحاولة مرة أخرى.',
+  // Bilingual reading mode translations
+  standardView: 'العرض العادي',
+  bilingualView: 'الصومالية والإنجليزية جنبًا إلى جنب',
+  somaliColumn: 'الصومالية',
+  englishColumn: 'الإنجليزية',
+  bilingualQuizNote: 'الأسئلة هنا للقراءة فقط. أجب عنها في العرض العادي.',
+  formatBilingual: 'Markdown ثنائي اللغة (الصومالية والإنجليزية)',
+  // Terminology translations
+  terminology: 'قاعدة المصطلحات',
+  terminologyIntro: 'تُستخدم المصطلحات المعتمدة بلغة {language} عند إنشاء الدورات وترجمتها وشرحها، وتُفحص الدورات بحثًا عن الصيغ المحظورة.',
+  termSource: 'المصطلح المصدر (بالإنجليزية)',
+  termApproved: 'المصطلح المعتمد ({language})',
+  termForbidden: 'الصيغ المحظورة (مفصولة بفواصل)',
+  addTerm: 'إضافة مصطلح',
+  removeTerm: 'إزالة',
+  importTerminology: 'استيراد (JSON أو CSV)',
+  exportTerminologyJson: 'تصدير JSON',
+  exportTerminologyCsv: 'تصدير CSV',
+  terminologyImported: {
+    zero: 'لم يُستورد أي مصطلح.',
+    one: 'تم استيراد مصطلح واحد.',
+    two: 'تم استيراد مصطلحين.',
+    few: 'تم استيراد {count} مصطلحات.',
+    many: 'تم استيراد {count} مصطلحًا.',
+    other: 'تم استيراد {count} مصطلح.',
+  },
+  terminologyImportError: 'تعذّر استيراد الملف.',
+  termFlagsHeading: 'فحص المصطلحات',
+  termFlagsIntro: 'تستخدم هذه المواضع صيغة محظورة لمصطلح معتمد:',
+  termFlagHint: 'استخدم "{approved}" ({source})',
+  locationTitle: 'عنوان الدورة',
+  locationOutline: 'بند المخطط {number}',
+  locationLesson: 'الدرس {number}',
+  locationSummary: 'ملخص الدورة',
+  locationGlossary: 'مصطلح المسرد {number}',
+  locationQuestion: 'السؤال {number}',
+  // Glossary translations
+  glossary: 'مسرد المصطلحات',
+  // SCORM export translations
+  formatScorm12: 'حزمة SCORM 1.2 (zip)',
+  formatScorm2004: 'حزمة SCORM 2004 (zip)',
+  submitQuiz: 'إرسال الاختبار',
+  shortAnswerNotScored: 'لا تُقيَّم هذه الإجابة تلقائيًا. قارنها بالإجابة النموذجية.',
+  // QTI package export translations
+  formatQtiPackage: 'حزمة QTI 2.1 مع الدروس (.zip)',
+  // HTML, EPUB and print export translations
+  formatStandaloneHtml: 'صفحة ويب مع اختبار يعمل دون اتصال (HTML)',
+  formatEpub: 'كتاب إلكتروني (EPUB)',
+  formatPrint: 'طباعة أو حفظ بصيغة PDF',
+  answerKey: 'مفتاح الإجابات',
+  // Course import translations
+  importCourse: 'استيراد دورة',
+  courseImportError: 'تعذّر استيراد هذا الملف.',
+  importedCourse: 'مستوردة',
+  // Course sharing translations
+  shareCourse: 'مشاركة',
+  shareLinkIntro: 'كل من يفتح هذا الرابط يحصل على نسخة من الدورة في تطبيقه. لا يُرفع شيء: الدورة محمولة داخل الرابط نفسه.',
+  shareLinksIntro: 'هذه الدورة أطول من أن تتسع لرابط واحد، لذا قُسّمت إلى {count} روابط. أرسلها كلها؛ تُفتح الدورة عند فتح آخرها.',
+  shareLinkPart: 'الرابط {part} من {total}',
+  copyLink: 'نسخ',
+  linkCopied: 'تم النسخ',
+  shareViaWhatsApp: 'واتساب',
+  shareLinkOther: 'المزيد…',
+  shareLinkError: 'تعذّر إنشاء رابط مشاركة لهذه الدورة.',
+  sharePartReceived: 'وصل الجزء {received} من {total} من دورة مُشارَكة. افتح الروابط المتبقية لعرضها.',
+  shareLinkInvalid: 'رابط المشاركة هذا تالف أو ناقص. اطلب من المرسل مشاركة الدورة مرة أخرى.',
+  // QR code translations
+  showQrCode: 'رمز QR',
+  hideQrCode: 'إخفاء رمز QR',
+  shareQrCodeDescription: 'رمز QR لرابط المشاركة',
+  // Certificate translations
+  getCertificate: 'احصل على الشهادة',
+  certificateTitle: 'شهادة إتمام',
+  certificateAwardedTo: 'تشهد هذه الوثيقة بأن',
+  certificateCompletedCourse: 'قد أتمّ الدورة بنجاح',
+  certificateScoreLabel: 'الدرجة',
+  certificateIdLabel: 'رقم الشهادة',
+  certificateQrDescription: 'رمز QR للتحقق من هذه الشهادة',
+  certificateScanToVerify: 'امسح للتحقق',
+  certificateNameLabel: 'اسمك كما يجب أن يظهر على الشهادة',
+  createCertificate: 'إنشاء الشهادة',
+  certificateError: 'تعذّر إنشاء الشهادة.',
+  downloadCertificateSvg: 'تنزيل (SVG)',
+  downloadCertificatePdf: 'طباعة أو حفظ بصيغة PDF',
+  certificateCodeLabel: 'رمز التحقق',
+  verifyCertificate: 'التحقق من شهادة',
+  verifyCertificateIntro: 'الصق رمز التحقق الخاص بالشهادة، أو امسح رمز QR الخاص بها بكاميرا الهاتف لفتح هذه الشاشة مع تعبئة الرمز. يجري التحقق على هذا الجهاز.',
+  verifyCertificateButton: 'تحقّق',
+  certificateValid: 'هذه الشهادة أصلية.',
+  certificateInvalid: 'هذه الشهادة غير صالحة: عُدّلت بياناتها، أو لم يُصدرها هذا التطبيق.',
+  certificateMalformed: 'هذا ليس رمز تحقق من شهادة.',
+  certificateNameField: 'الاسم',
+  certificateCourseField: 'الدورة',
+  certificateLevelField: 'المستوى',
+  certificateDateField: 'التاريخ',
+  certificateCourseFingerprint: 'بصمة الدورة',
+  certificateUnsigned: 'لا تحمل هذه الشهادة رمز تحقق، لأن هذه النسخة من التطبيق غير مُعدّة لتوقيع الشهادات.',
+  // Learning path translations
+  learningPath: 'مسار التعلّم',
+  pathProgress: 'اكتمل {completed} من {total} مستويات',
+  pathLocked: 'اجتز "{level}" لفتح هذا المستوى',
+  pathAvailable: 'ابدأ هذا المستوى',
+  pathInProgress: 'قيد التقدّم',
+  pathCompleted: 'مكتمل',
+  pathBestScore: 'أفضل درجة {percentage}%',
+  // Progress tracking translations
+  progressDashboard: 'تقدّمي',
+  progressIntro: 'الدروس التي قرأتها ونتائج اختبارات المعرفة، محفوظة على هذا الجهاز فقط. يُعدّ الدرس مكتملًا بعد أن يبقى مفتوحًا وقتًا كافيًا لقراءته.',
+  progressEmpty: 'افتح درسًا أو خذ اختبار المعرفة لبدء تتبّع تقدّمك.',
+  currentStreak: 'السلسلة الحالية',
+  longestStreak: 'أطول سلسلة',
+  dayCount: {
+    zero: '{count} يوم',
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  lessonsCompletedStat: 'الدروس المكتملة',
+  readingTimeStat: 'وقت القراءة',
+  quizzesPassedStat: 'اختبارات المعرفة المجتازة',
+  readingMinutes: '{minutes} دقيقة',
+  courseProgressHeading: 'الدورات',
+  courseCompletion: 'مكتمل بنسبة {percentage}%',
+  lessonsCompletedCount: '{completed}/{total} دروس',
+  weakestTopics: 'أضعف المواضيع',
+  weakTopicScore: '{percentage}% صحيح',
+  noWeakTopics: 'لا توجد مواضيع ضعيفة بعد. تظهر هنا الدروس التي تخطئ في أسئلتها في اختبار المعرفة.',
+  exportProgress: 'تصدير التقدّم',
+  lessonCompletedLabel: 'الدرس مكتمل',
+  // Learner profile translations
+  defaultLearnerName: 'المتعلّم الرئيسي',
+  learningAs: 'يتعلّم الآن: {name}',
+  switchLearner: 'تبديل المتعلّم',
+  removeLearner: 'إزالة المتعلّم',
+  confirmRemoveLearner: 'هل تريد إزالة {name} وحذف دوراته وتقدّمه وملاحظاته من هذا الجهاز؟',
+  whoIsLearning: 'من يتعلّم الآن؟',
+  enterPin: 'رمز PIN الخاص بـ {name}',
+  wrongPin: 'رمز PIN غير صحيح.',
+  unlockProfile: 'فتح',
+  cancel: 'إلغاء',
+  addLearner: 'إضافة متعلّم',
+  learnerNameLabel: 'اسم المتعلّم',
+  pinOptionalLabel: 'رمز PIN (اختياري، من 4 إلى 8 أرقام)',
+  confirmPinLabel: 'أعد إدخال رمز PIN',
+  pinInvalid: 'يتكوّن رمز PIN من 4 إلى 8 أرقام.',
+  pinMismatch: 'رمزا PIN غير متطابقين.',
+  profileCreateError: 'تعذّرت إضافة المتعلّم.',
+  supervisorExport: 'تصدير المشرف',
+  supervisorExportIntro: 'نزّل تقدّم كل متعلّم في الدورات ونتائج اختبارات المعرفة على هذا الجهاز.',
+  exportResultsCsv: 'تصدير النتائج (CSV)',
+  exportResultsJson: 'تصدير النتائج (JSON)',
+};
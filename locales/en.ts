@@ -0,0 +1,266 @@
+import type { PluralForms } from '../i18n';
+
+// English messages. This object is the key schema every other locale follows, and
+// the fallback for any key a locale leaves out. Placeholders in braces, like
+// {count}, are filled in by formatMessage.
+export const en = {
+  title: 'Geeddi – AI Learning Academy',
+  subtitle: 'A SERIES OF LESSONS TO LEARN AI TECHNOLOGY',
+  generatingError: 'Failed to generate the course. Please try again.',
+  courseOutline: 'Course Outline',
+  mainLessons: 'Main Lessons',
+  lessonSummaryPrefix: 'Summary',
+  courseSummary: 'Brief Summary',
+  knowledgeCheck: 'Knowledge Check',
+  trueOption: 'True',
+  falseOption: 'False',
+  correctFeedback: 'Correct!',
+  incorrectFeedback: 'Wrong!',
+  explanationLabel: 'Explanation:',
+  loadingExplanation: 'Loading explanation...',
+  failedExplanation: 'Failed to generate explanation.',
+  loadingContent: 'Loading content...',
+  downloadCourse: 'Download Course',
+  scanToDownloadApp: 'Scan to Download App', // No longer shown by the download bar
+  // New download related translations
+  chooseDownloadFormat: 'Choose Download Format',
+  formatMarkdown: 'Markdown Format',
+  formatPlainText: 'Plain Text',
+  confirmDownload: 'Confirm Download',
+  cancelDownload: 'Cancel',
+  // New additions for reload and app download QR dialog
+  reloadPage: 'Reload Page',
+  getApp: 'Get App',
+  installApp: 'Install App', // English for "Install App"
+  appDownloadTitle: 'Download Geeddi App',
+  scanToDownloadAppModal: 'Please scan this QR code to download the app.',
+  closeModal: 'Close',
+  qrCodeDescription: 'QR code to download Geeddi app',
+  selectLanguage: 'Select Language',
+  // New feedback related translations
+  rateCourse: 'Rate This Course',
+  rateLesson: 'Rate This Lesson',
+  howToRate: 'Please rate this (1 = very poor, 5 = excellent):',
+  yourComments: 'Your Comments (optional):',
+  submitFeedback: 'Submit Feedback',
+  thankYouFeedback: 'Thank you for your feedback!',
+  editFeedback: 'Edit Feedback',
+  starRatingLabel: 'star',
+  // Course library translations
+  courseLibrary: 'Course Library',
+  libraryEmpty: 'No saved courses yet.',
+  openCourse: 'Open',
+  renameCourse: 'Rename',
+  deleteCourse: 'Delete',
+  saveName: 'Save',
+  confirmDeleteCourse: 'Are you sure you want to delete this course?',
+  savedOn: 'Saved',
+  lessonCount: { one: '{count} lesson', other: '{count} lessons' } as PluralForms,
+  // Custom course form translations
+  customCourse: 'Create a Custom Course',
+  topicLabel: 'Topic',
+  topicPlaceholder: 'e.g. AI for agriculture extension workers',
+  audienceLabel: 'Target Audience',
+  audiencePlaceholder: 'e.g. customer support agents',
+  difficultyLabel: 'Difficulty',
+  difficultyBeginner: 'Beginner',
+  difficultyIntermediate: 'Intermediate',
+  difficultyAdvanced: 'Advanced',
+  lessonCountLabel: 'Number of Lessons',
+  multipleChoiceCountLabel: 'Multiple-Choice Questions',
+  trueFalseCountLabel: 'True/False Questions',
+  lessonLengthLabel: 'Lesson Length',
+  lengthShort: 'Short',
+  lengthMedium: 'Medium',
+  lengthLong: 'Long',
+  generateCustomCourse: 'Generate Course',
+  // Quiz results translations
+  quizResults: 'Quiz Results',
+  yourScore: 'Your score',
+  quizPassed: 'You passed!',
+  quizFailed: 'You did not pass. Try again.',
+  passThresholdNote: 'Passing requires at least {threshold}%.',
+  yourAnswerLabel: 'Your answer',
+  correctAnswerLabel: 'Correct answer',
+  noAnswer: 'Not answered',
+  retakeQuiz: 'Retake Quiz',
+  attemptHistory: 'Attempt History',
+  attemptLabel: 'Attempt',
+  attemptCount: { one: '{count} attempt', other: '{count} attempts' } as PluralForms,
+  // Question type translations
+  multiSelectCountLabel: 'Multi-Select Questions',
+  fillInTheBlankCountLabel: 'Fill-in-the-Blank Questions',
+  orderingCountLabel: 'Ordering Questions',
+  matchingCountLabel: 'Matching Questions',
+  selectAllThatApply: 'Select all that apply',
+  typeYourAnswer: 'Type your answer',
+  arrangeInOrder: 'Arrange the items in the correct order',
+  matchEachItem: 'Match each item with its pair',
+  chooseMatch: 'Choose...',
+  moveUp: 'Move up',
+  moveDown: 'Move down',
+  submitAnswer: 'Submit Answer',
+  partiallyCorrectFeedback: 'Partially correct',
+  // Short-answer translations
+  shortAnswerCountLabel: 'Short-Answer Questions',
+  writeYourAnswer: 'Write your answer in your own words',
+  gradingAnswer: 'Grading your answer...',
+  failedGrading: 'Failed to grade your answer.',
+  gradeScoreLabel: 'Score',
+  whatWasRight: 'What you got right',
+  whatWasMissing: 'What was missing',
+  modelAnswerLabel: 'Model answer',
+  // Lesson tutor translations
+  lessonTutor: 'Ask the Tutor',
+  tutorIntro: 'Have a question about this lesson? The tutor answers from the lesson and the course.',
+  tutorPlaceholder: 'Type your question...',
+  sendMessage: 'Send',
+  tutorThinking: 'The tutor is thinking...',
+  learnerLabel: 'You',
+  tutorLabel: 'Tutor',
+  failedTutorReply: 'The tutor could not reply. Please try again.',
+  // Course translation translations
+  courseInOtherLanguage: 'This course is written in another language.',
+  translateCourse: 'Translate to {language}',
+  translatingCourse: 'Translating course...',
+  translationError: 'Failed to translate the course. Please try again.',
+  // Bilingual reading mode translations
+  standardView: 'Standard view',
+  bilingualView: 'Somali and English side by side',
+  somaliColumn: 'Soomaali',
+  englishColumn: 'English',
+  bilingualQuizNote: 'Questions here are for reading only. Answer them in the standard view.',
+  formatBilingual: 'Bilingual Markdown (Somali and English)',
+  // Terminology translations
+  terminology: 'Terminology Base',
+  terminologyIntro: 'Approved {language} terms are used whenever courses are generated, translated or explained, and courses are checked for the forbidden variants.',
+  termSource: 'Source term (English)',
+  termApproved: 'Approved term ({language})',
+  termForbidden: 'Forbidden variants (comma-separated)',
+  addTerm: 'Add Term',
+  removeTerm: 'Remove',
+  importTerminology: 'Import (JSON or CSV)',
+  exportTerminologyJson: 'Export JSON',
+  exportTerminologyCsv: 'Export CSV',
+  terminologyImported: { one: 'Imported {count} term.', other: 'Imported {count} terms.' } as PluralForms,
+  terminologyImportError: 'Could not import the file.',
+  termFlagsHeading: 'Terminology Check',
+  termFlagsIntro: 'These places use a forbidden variant of an approved term:',
+  termFlagHint: 'Use "{approved}" ({source})',
+  locationTitle: 'Course title',
+  locationOutline: 'Outline item {number}',
+  locationLesson: 'Lesson {number}',
+  locationSummary: 'Course summary',
+  locationGlossary: 'Glossary term {number}',
+  locationQuestion: 'Question {number}',
+  // Glossary translations
+  glossary: 'Glossary',
+  // SCORM export translations
+  formatScorm12: 'SCORM 1.2 package (zip)',
+  formatScorm2004: 'SCORM 2004 package (zip)',
+  submitQuiz: 'Submit Quiz',
+  shortAnswerNotScored: 'This answer is not scored automatically. Compare it with the model answer.',
+  // QTI package export translations
+  formatQtiPackage: 'QTI 2.1 package with the lessons (.zip)',
+  // HTML, EPUB and print export translations
+  formatStandaloneHtml: 'Web page with offline quiz (HTML)',
+  formatEpub: 'E-book (EPUB)',
+  formatPrint: 'Print or save as PDF',
+  answerKey: 'Answer key',
+  // Course import translations
+  importCourse: 'Import course',
+  courseImportError: 'Could not import this file.',
+  importedCourse: 'Imported',
+  // Course sharing translations
+  shareCourse: 'Share',
+  shareLinkIntro: 'Anyone who opens this link gets a copy of the course in their app. Nothing is uploaded: the course travels inside the link.',
+  shareLinksIntro: 'This course is too long for one link, so it was split into {count}. Send all of them; the course opens once the last one is opened.',
+  shareLinkPart: 'Link {part} of {total}',
+  copyLink: 'Copy',
+  linkCopied: 'Copied',
+  shareViaWhatsApp: 'WhatsApp',
+  shareLinkOther: 'More…',
+  shareLinkError: 'Could not create a share link for this course.',
+  sharePartReceived: 'Received part {received} of {total} of a shared course. Open the remaining links to see it.',
+  shareLinkInvalid: 'This share link is damaged or incomplete. Ask the sender to share the course again.',
+  // QR code translations
+  showQrCode: 'QR code',
+  hideQrCode: 'Hide QR code',
+  shareQrCodeDescription: 'QR code of the share link',
+  // Certificate translations
+  getCertificate: 'Get certificate',
+  certificateTitle: 'Certificate of Completion',
+  certificateAwardedTo: 'This certifies that',
+  certificateCompletedCourse: 'has successfully completed the course',
+  certificateScoreLabel: 'Score',
+  certificateIdLabel: 'Certificate ID',
+  certificateQrDescription: 'QR code to verify this certificate',
+  certificateScanToVerify: 'Scan to verify',
+  certificateNameLabel: 'Your name as it should appear on the certificate',
+  createCertificate: 'Create certificate',
+  certificateError: 'Could not create the certificate.',
+  downloadCertificateSvg: 'Download (SVG)',
+  downloadCertificatePdf: 'Print or save as PDF',
+  certificateCodeLabel: 'Verification code',
+  verifyCertificate: 'Verify a certificate',
+  verifyCertificateIntro: "Paste a certificate's verification code, or scan its QR code with a phone camera to open this screen with the code filled in. The check runs on this device.",
+  verifyCertificateButton: 'Verify',
+  certificateValid: 'This certificate is genuine.',
+  certificateInvalid: 'This certificate is not valid: its details were changed, or it was not issued by this app.',
+  certificateMalformed: 'This is not a certificate verification code.',
+  certificateNameField: 'Name',
+  certificateCourseField: 'Course',
+  certificateLevelField: 'Level',
+  certificateDateField: 'Date',
+  certificateCourseFingerprint: 'Course fingerprint',
+  certificateUnsigned: 'This certificate has no verification code, because this copy of the app is not set up to sign certificates.',
+  // Learning path translations
+  learningPath: 'Learning path',
+  pathProgress: '{completed} of {total} levels completed',
+  pathLocked: 'Pass "{level}" to unlock',
+  pathAvailable: 'Start this level',
+  pathInProgress: 'In progress',
+  pathCompleted: 'Completed',
+  pathBestScore: 'best score {percentage}%',
+  // Progress tracking translations
+  progressDashboard: 'My progress',
+  progressIntro: 'Lessons you read and your Knowledge Check results, kept on this device only. A lesson counts as completed once it has been open long enough to read it.',
+  progressEmpty: 'Open a lesson or take a Knowledge Check to start tracking your progress.',
+  currentStreak: 'Current streak',
+  longestStreak: 'Longest streak',
+  dayCount: { one: '{count} day', other: '{count} days' } as PluralForms,
+  lessonsCompletedStat: 'Lessons completed',
+  readingTimeStat: 'Reading time',
+  quizzesPassedStat: 'Knowledge Checks passed',
+  readingMinutes: '{minutes} min',
+  courseProgressHeading: 'Courses',
+  courseCompletion: '{percentage}% complete',
+  lessonsCompletedCount: '{completed}/{total} lessons',
+  weakestTopics: 'Weakest topics',
+  weakTopicScore: '{percentage}% correct',
+  noWeakTopics: 'No weak topics yet. Lessons whose questions you miss in a Knowledge Check show up here.',
+  exportProgress: 'Export progress',
+  lessonCompletedLabel: 'Lesson completed',
+  // Learner profile translations
+  defaultLearnerName: 'Main learner',
+  learningAs: 'Learning as {name}',
+  switchLearner: 'Switch learner',
+  removeLearner: 'Remove learner',
+  confirmRemoveLearner: 'Remove {name} and delete their courses, progress and feedback from this device?',
+  whoIsLearning: 'Who is learning?',
+  enterPin: 'PIN for {name}',
+  wrongPin: 'That PIN is not correct.',
+  unlockProfile: 'Open',
+  cancel: 'Cancel',
+  addLearner: 'Add learner',
+  learnerNameLabel: 'Learner name',
+  pinOptionalLabel: 'PIN (optional, 4 to 8 digits)',
+  confirmPinLabel: 'Repeat the PIN',
+  pinInvalid: 'A PIN has 4 to 8 digits.',
+  pinMismatch: 'The two PINs do not match.',
+  profileCreateError: 'The learner could not be added.',
+  supervisorExport: 'Supervisor export',
+  supervisorExportIntro: "Download every learner's course progress and Knowledge Check results on this device.",
+  exportResultsCsv: 'Export results (CSV)',
+  exportResultsJson: 'Export results (JSON)',
+};
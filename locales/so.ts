@@ -0,0 +1,264 @@
+import type { LocaleMessages } from '../i18n';
+
+// Somali messages
+export const so: LocaleMessages = {
+  title: 'Geeddi – AI Learning Academy',
+  subtitle: 'CASHARO TAGNOOLAJIGA AI LAGU BARANAYO OO TAXANE AH',
+  generatingError: 'Way ku guuldareysatay soo saarista casharka. Fadlan isku day mar kale.',
+  courseOutline: 'Dulmarka Casharka',
+  mainLessons: 'Casharada Muhiimka ah',
+  lessonSummaryPrefix: 'Soo Koobid',
+  courseSummary: 'Qoraal Kooban',
+  knowledgeCheck: 'Hubinta Aqoonta',
+  trueOption: 'Run',
+  falseOption: 'Been',
+  correctFeedback: 'Waa Sax!',
+  incorrectFeedback: 'Waa Khalad!',
+  explanationLabel: 'Sharaxaad:',
+  loadingExplanation: 'Sharaxaada ayaa la soo saarayaa...',
+  failedExplanation: 'Way ku guuldareysatay soo saarista sharaxaada.',
+  loadingContent: 'Waxa la soo saarayaa macluumaadka...',
+  downloadCourse: 'Soo Degso Casharka',
+  scanToDownloadApp: 'Ku soo degso abka adoo iskaan gareynaya', // No longer shown by the download bar
+  // New download related translations
+  chooseDownloadFormat: 'Dooro qaabka soo dejinta',
+  formatMarkdown: 'Qaabka Markdown',
+  formatPlainText: 'Qoraal Cad',
+  confirmDownload: 'Xaqiiji Soo Dejinta',
+  cancelDownload: 'Jooji',
+  // New additions for reload and app download QR dialog
+  reloadPage: 'Dib u shub bogga',
+  getApp: 'Hel App-ka',
+  installApp: 'Ku rakib App-ka', // Somali for "Install App"
+  appDownloadTitle: 'Ku soo degso Geeddi App-ka',
+  scanToDownloadAppModal: 'Fadlan ku iskaan garee QR code-kan si aad u soo degsato app-ka.',
+  closeModal: 'Xir',
+  qrCodeDescription: 'QR code si aad u soo degsato barnaamijka Geeddi',
+  selectLanguage: 'Dooro Luqadda',
+  // New feedback related translations
+  rateCourse: 'Qiimee Casharkan',
+  rateLesson: 'Qiimee Casharkan',
+  howToRate: 'Fadlan qiimee casharkan (1 = aad u liita, 5 = aad u wanaagsan):',
+  yourComments: 'Faalooyinkaaga (optional):',
+  submitFeedback: 'Dir Faalada',
+  thankYouFeedback: 'Waad ku mahadsan tahay faaladaada!',
+  editFeedback: 'Wax ka beddel Faalada',
+  starRatingLabel: 'xiddig', // 'star'
+  // Course library translations
+  courseLibrary: 'Maktabadda Casharada',
+  libraryEmpty: 'Weli ma jiraan casharo la keydiyay.',
+  openCourse: 'Fur',
+  renameCourse: 'Magac beddel',
+  deleteCourse: 'Tirtir',
+  saveName: 'Keydi',
+  confirmDeleteCourse: 'Ma hubtaa inaad tirtirto casharkan?',
+  savedOn: 'La keydiyay',
+  lessonCount: { one: '{count} cashar', other: '{count} cashar' },
+  // Custom course form translations
+  customCourse: 'Samee Cashar Gaar ah',
+  topicLabel: 'Mawduuca',
+  topicPlaceholder: 'Tusaale: AI-ga loogu talagalay shaqaalaha beeraha',
+  audienceLabel: 'Dhagaystayaasha',
+  audiencePlaceholder: 'Tusaale: shaqaalaha adeegga macaamiisha',
+  difficultyLabel: 'Heerka Adkaanta',
+  difficultyBeginner: 'Bilow',
+  difficultyIntermediate: 'Dhexe',
+  difficultyAdvanced: 'Sare',
+  lessonCountLabel: 'Tirada Casharada',
+  multipleChoiceCountLabel: "Su'aalaha Doorashada Badan",
+  trueFalseCountLabel: "Su'aalaha Run/Been",
+  lessonLengthLabel: 'Dhererka Casharka',
+  lengthShort: 'Gaaban',
+  lengthMedium: 'Dhexdhexaad',
+  lengthLong: 'Dheer',
+  generateCustomCourse: 'Samee Casharka',
+  // Quiz results translations
+  quizResults: 'Natiijada Imtixaanka',
+  yourScore: 'Dhibcahaaga',
+  quizPassed: 'Waad gudubtay!',
+  quizFailed: 'Kuma aadan gudbin. Isku day mar kale.',
+  passThresholdNote: 'Si aad u gudubto waxaad u baahan tahay ugu yaraan {threshold}%.',
+  yourAnswerLabel: 'Jawaabtaada',
+  correctAnswerLabel: 'Jawaabta saxda ah',
+  noAnswer: 'Lama jawaabin',
+  retakeQuiz: 'Dib u gal Imtixaanka',
+  attemptHistory: 'Taariikhda Isku dayada',
+  attemptLabel: 'Isku day',
+  attemptCount: { one: '{count} isku day', other: '{count} isku day' },
+  // Question type translations
+  multiSelectCountLabel: "Su'aalaha Doorashooyin Badan (dhowr sax ah)",
+  fillInTheBlankCountLabel: "Su'aalaha Buuxi Meesha Bannaan",
+  orderingCountLabel: "Su'aalaha Isku Xigxiga",
+  matchingCountLabel: "Su'aalaha Isku Aadinta",
+  selectAllThatApply: 'Dooro dhammaan kuwa saxda ah',
+  typeYourAnswer: 'Ku qor jawaabtaada',
+  arrangeInOrder: 'U kala hormari sida saxda ah',
+  matchEachItem: 'Ku aadi shay kasta kan la midka ah',
+  chooseMatch: 'Dooro...',
+  moveUp: 'Kor u qaad',
+  moveDown: 'Hoos u dhig',
+  submitAnswer: 'Gudbi Jawaabta',
+  partiallyCorrectFeedback: 'Qayb ahaan waa sax',
+  // Short-answer translations
+  shortAnswerCountLabel: "Su'aalaha Jawaab Gaaban",
+  writeYourAnswer: 'Ku qor jawaabtaada erayadaada',
+  gradingAnswer: 'Jawaabtaada ayaa la qiimeynayaa...',
+  failedGrading: 'Way ku guuldareysatay qiimeynta jawaabta.',
+  gradeScoreLabel: 'Dhibcaha',
+  whatWasRight: 'Waxa aad saxday',
+  whatWasMissing: 'Waxa ka maqnaa',
+  modelAnswerLabel: 'Jawaab tusaale ah',
+  // Lesson tutor translations
+  lessonTutor: 'Weydii Macallinka',
+  tutorIntro: "Wax su'aal ah oo ku saabsan casharkan ma qabtaa? Macallinku wuxuu kaaga jawaabayaa casharka iyo koorsada.",
+  tutorPlaceholder: "Ku qor su'aashaada...",
+  sendMessage: 'Dir',
+  tutorThinking: 'Macallinku wuu ka fikirayaa...',
+  learnerLabel: 'Adiga',
+  tutorLabel: 'Macallinka',
+  failedTutorReply: 'Macallinku wuu ku guuldareystay inuu jawaabo. Fadlan isku day mar kale.',
+  // Course translation translations
+  courseInOtherLanguage: 'Koorsadan waxay ku qoran tahay luqad kale.',
+  translateCourse: 'U turjun {language}',
+  translatingCourse: 'Koorsada ayaa la turjumayaa...',
+  translationError: 'Way ku guuldareysatay turjumaadda koorsada. Fadlan isku day mar kale.',
+  // Bilingual reading mode translations
+  standardView: 'Muuqaalka caadiga ah',
+  bilingualView: 'Labada luqadood dhinac-dhinac',
+  somaliColumn: 'Soomaali',
+  englishColumn: 'English',
+  bilingualQuizNote: 'Su\'aalaha halkan waa akhris keliya. Ka jawaab muuqaalka caadiga ah.',
+  formatBilingual: 'Markdown laba luqadood (Soomaali iyo English)',
+  // Terminology translations
+  terminology: 'Keydka Ereybixinta',
+  terminologyIntro: 'Ereyada {language} ee la ansixiyay ayaa la isticmaalaa marka koorsooyinka la sameynayo, la turjumayo ama la sharxayo, koorsooyinkana waxaa laga hubiyaa qaababka la mamnuucay.',
+  termSource: 'Ereyga asalka ah (English)',
+  termApproved: 'Ereyga la ansixiyay ({language})',
+  termForbidden: 'Qaababka la mamnuucay (hakad ku kala saar)',
+  addTerm: 'Ku dar Erey',
+  removeTerm: 'Ka saar',
+  importTerminology: 'Soo geli (JSON ama CSV)',
+  exportTerminologyJson: 'U dhoofi JSON',
+  exportTerminologyCsv: 'U dhoofi CSV',
+  terminologyImported: { one: '{count} erey ayaa la soo geliyay.', other: '{count} erey ayaa la soo geliyay.' },
+  terminologyImportError: 'Faylka lama soo gelin karo.',
+  termFlagsHeading: 'Hubinta Ereybixinta',
+  termFlagsIntro: 'Meelahan waxay isticmaalaan qaab la mamnuucay oo erey la ansixiyay ah:',
+  termFlagHint: 'Isticmaal "{approved}" ({source})',
+  locationTitle: 'Cinwaanka koorsada',
+  locationOutline: 'Qodobka dulmarka {number}',
+  locationLesson: 'Casharka {number}',
+  locationSummary: 'Soo koobidda koorsada',
+  locationGlossary: 'Erayga qaamuuska {number}',
+  locationQuestion: "Su'aasha {number}",
+  // Glossary translations
+  glossary: 'Qaamuuska Ereyada',
+  // SCORM export translations
+  formatScorm12: 'Xirmada SCORM 1.2 (zip)',
+  formatScorm2004: 'Xirmada SCORM 2004 (zip)',
+  submitQuiz: 'Gudbi Imtixaanka',
+  shortAnswerNotScored: 'Jawaabtan si toos ah looma dhibcayn. Barbar dhig jawaabta tusaalaha ah.',
+  // QTI package export translations
+  formatQtiPackage: 'Xirmo QTI 2.1 oo leh casharrada (.zip)',
+  // HTML, EPUB and print export translations
+  formatStandaloneHtml: 'Bog internet oo leh imtixaan aan internet u baahnayn (HTML)',
+  formatEpub: 'Buug elektaroonig ah (EPUB)',
+  formatPrint: 'Daabac ama u kaydi PDF',
+  answerKey: 'Furaha jawaabaha',
+  // Course import translations
+  importCourse: 'Soo geli koorso',
+  courseImportError: 'Faylkan lama soo gelin karo.',
+  importedCourse: 'La soo geliyay',
+  // Course sharing translations
+  shareCourse: 'La wadaag',
+  shareLinkIntro: 'Qof kasta oo fura xiriirkan wuxuu barnaamijkiisa ku helayaa nuqul koorsada ah. Koorsada meel kale laguma kaydinayo: waxay ku jirtaa xiriirka gudihiisa.',
+  shareLinksIntro: 'Koorsadani aad bay ugu dheer tahay hal xiriir, sidaas darteed waxaa loo qaybiyay {count}. Dhammaantood dir; koorsadu waxay furmaysaa marka kan ugu dambeeya la furo.',
+  shareLinkPart: 'Xiriirka {part} ee {total}',
+  copyLink: 'Koobiyee',
+  linkCopied: 'Waa la koobiyeeyay',
+  shareViaWhatsApp: 'WhatsApp',
+  shareLinkOther: 'Kuwo kale…',
+  shareLinkError: 'Lama samayn karo xiriir lagu wadaago koorsadan.',
+  sharePartReceived: 'Waxaa la helay qaybta {received} ee {total} ee koorso la wadaagay. Fur xiriirada haray si aad u aragto.',
+  shareLinkInvalid: 'Xiriirkan wadaagga wuu xumaaday ama waa dhiman yahay. Ka codso soo diraha inuu koorsada mar kale la wadaago.',
+  // QR code translations
+  showQrCode: 'Koodhka QR',
+  hideQrCode: 'Qari koodhka QR',
+  shareQrCodeDescription: 'Koodhka QR ee xiriirka wadaagga',
+  // Certificate translations
+  getCertificate: 'Hel shahaado',
+  certificateTitle: 'Shahaadada Dhammaystirka',
+  certificateAwardedTo: 'Waxaa la caddeynayaa in',
+  certificateCompletedCourse: 'uu si guul leh u dhammaystiray koorsada',
+  certificateScoreLabel: 'Dhibcaha',
+  certificateIdLabel: 'Aqoonsiga shahaadada',
+  certificateQrDescription: 'Koodhka QR ee lagu xaqiijiyo shahaadadan',
+  certificateScanToVerify: 'Iska baar si aad u xaqiijiso',
+  certificateNameLabel: 'Magacaaga sida uu ugu qornaan doono shahaadada',
+  createCertificate: 'Samee shahaado',
+  certificateError: 'Shahaadada lama samayn karo.',
+  downloadCertificateSvg: 'Soo deji (SVG)',
+  downloadCertificatePdf: 'Daabac ama u kaydi PDF ahaan',
+  certificateCodeLabel: 'Koodhka xaqiijinta',
+  verifyCertificate: 'Xaqiiji shahaado',
+  verifyCertificateIntro: 'Ku dheji koodhka xaqiijinta ee shahaadada, ama kaamirada taleefanka ku iska baar koodhkeeda QR si shaashaddan ay ugu furanto iyadoo koodhku ku jiro. Hubintu waxay ka dhacdaa qalabkan.',
+  verifyCertificateButton: 'Xaqiiji',
+  certificateValid: 'Shahaadadani waa mid dhab ah.',
+  certificateInvalid: 'Shahaadadani ma ansaxna: faahfaahinteeda waa la beddelay, ama barnaamijkan ma bixin.',
+  certificateMalformed: 'Kani maaha koodh xaqiijinta shahaado.',
+  certificateNameField: 'Magaca',
+  certificateCourseField: 'Koorsada',
+  certificateLevelField: 'Heerka',
+  certificateDateField: 'Taariikhda',
+  certificateCourseFingerprint: 'Calaamadda koorsada',
+  certificateUnsigned: 'Shahaadadan ma laha koodh xaqiijin, sababtoo ah nuqulkan barnaamijka looma habeynin inuu saxiixo shahaadooyinka.',
+  // Learning path translations
+  learningPath: 'Waddada waxbarashada',
+  pathProgress: '{completed} ka mid ah {total} heer ayaa la dhammaystiray',
+  pathLocked: 'Ku guulayso "{level}" si uu u furmo',
+  pathAvailable: 'Bilow heerkan',
+  pathInProgress: 'Socda',
+  pathCompleted: 'La dhammaystiray',
+  pathBestScore: 'dhibcaha ugu sarreeya {percentage}%',
+  // Progress tracking translations
+  progressDashboard: 'Horumarkayga',
+  progressIntro: 'Casharada aad akhriday iyo natiijooyinka Hubinta Aqoonta, oo lagu kaydiyo qalabkan oo keliya. Cashar waxaa loo tiriyaa mid la dhammaystiray marka uu furnaa waqti ku filan oo lagu akhriyo.',
+  progressEmpty: 'Fur cashar ama qaado Hubinta Aqoonta si loo bilaabo la socodka horumarkaaga.',
+  currentStreak: 'Maalmaha isku xiga ee hadda',
+  longestStreak: 'Maalmaha isku xiga ee ugu badan',
+  dayCount: { one: '{count} maalin', other: '{count} maalmood' },
+  lessonsCompletedStat: 'Casharada la dhammaystiray',
+  readingTimeStat: 'Waqtiga akhriska',
+  quizzesPassedStat: 'Hubinnada Aqoonta ee lagu guulaystay',
+  readingMinutes: '{minutes} daqiiqo',
+  courseProgressHeading: 'Koorsooyinka',
+  courseCompletion: '{percentage}% la dhammaystiray',
+  lessonsCompletedCount: '{completed}/{total} cashar',
+  weakestTopics: 'Mawduucyada ugu daciifsan',
+  weakTopicScore: '{percentage}% sax ah',
+  noWeakTopics: "Weli ma jiraan mawduucyo daciif ah. Casharada su'aalahooda aad ku khaldanto Hubinta Aqoonta halkan ayay ka muuqdaan.",
+  exportProgress: 'Soo deji horumarka',
+  lessonCompletedLabel: 'Casharka waa la dhammaystiray',
+  // Learner profile translations
+  defaultLearnerName: 'Ardayga koowaad',
+  learningAs: 'Wuxuu baranayaa: {name}',
+  switchLearner: 'Beddel ardayga',
+  removeLearner: 'Ka saar ardayga',
+  confirmRemoveLearner: 'Ma ka saaraysaa {name} oo ma ka tirtiraysaa koorsooyinkiisa, horumarkiisa iyo faallooyinkiisa qalabkan?',
+  whoIsLearning: 'Yaa wax baranaya?',
+  enterPin: 'PIN-ka {name}',
+  wrongPin: 'PIN-kaasi sax ma aha.',
+  unlockProfile: 'Fur',
+  cancel: 'Jooji',
+  addLearner: 'Ku dar arday',
+  learnerNameLabel: 'Magaca ardayga',
+  pinOptionalLabel: 'PIN (ikhtiyaari, 4 ilaa 8 god)',
+  confirmPinLabel: 'Ku celi PIN-ka',
+  pinInvalid: 'PIN-ku waa 4 ilaa 8 god.',
+  pinMismatch: 'Labada PIN isma laha.',
+  profileCreateError: 'Ardayga lama dari karin.',
+  supervisorExport: 'Soo dejinta kormeeraha',
+  supervisorExportIntro: 'Soo deji horumarka koorsooyinka iyo natiijooyinka Hubinta Aqoonta ee arday kasta oo qalabkan ku jira.',
+  exportResultsCsv: 'Soo deji natiijooyinka (CSV)',
+  exportResultsJson: 'Soo deji natiijooyinka (JSON)',
+};
@@ -0,0 +1,264 @@
+import type { LocaleMessages } from '../i18n';
+
+// Swahili messages
+export const sw: LocaleMessages = {
+  title: 'Geeddi – Chuo cha Kujifunza AI',
+  subtitle: 'MFULULIZO WA MASOMO YA KUJIFUNZA TEKNOLOJIA YA AI',
+  generatingError: 'Imeshindwa kutengeneza kozi. Tafadhali jaribu tena.',
+  courseOutline: 'Muhtasari wa Kozi',
+  mainLessons: 'Masomo Makuu',
+  lessonSummaryPrefix: 'Muhtasari',
+  courseSummary: 'Muhtasari Mfupi',
+  knowledgeCheck: 'Jaribio la Maarifa',
+  trueOption: 'Kweli',
+  falseOption: 'Si kweli',
+  correctFeedback: 'Sahihi!',
+  incorrectFeedback: 'Si sahihi!',
+  explanationLabel: 'Maelezo:',
+  loadingExplanation: 'Inapakia maelezo...',
+  failedExplanation: 'Imeshindwa kutengeneza maelezo.',
+  loadingContent: 'Inapakia maudhui...',
+  downloadCourse: 'Pakua Kozi',
+  scanToDownloadApp: 'Changanua ili Kupakua Programu', // No longer shown by the download bar
+  // New download related translations
+  chooseDownloadFormat: 'Chagua Muundo wa Kupakua',
+  formatMarkdown: 'Muundo wa Markdown',
+  formatPlainText: 'Maandishi Matupu',
+  confirmDownload: 'Thibitisha Kupakua',
+  cancelDownload: 'Ghairi',
+  // New additions for reload and app download QR dialog
+  reloadPage: 'Pakia Ukurasa Upya',
+  getApp: 'Pata Programu',
+  installApp: 'Sakinisha Programu',
+  appDownloadTitle: 'Pakua Programu ya Geeddi',
+  scanToDownloadAppModal: 'Tafadhali changanua msimbo huu wa QR ili kupakua programu.',
+  closeModal: 'Funga',
+  qrCodeDescription: 'Msimbo wa QR wa kupakua programu ya Geeddi',
+  selectLanguage: 'Chagua Lugha',
+  // New feedback related translations
+  rateCourse: 'Kadiria Kozi Hii',
+  rateLesson: 'Kadiria Somo Hili',
+  howToRate: 'Tafadhali kadiria (1 = dhaifu sana, 5 = bora kabisa):',
+  yourComments: 'Maoni Yako (si lazima):',
+  submitFeedback: 'Tuma Maoni',
+  thankYouFeedback: 'Asante kwa maoni yako!',
+  editFeedback: 'Hariri Maoni',
+  starRatingLabel: 'nyota',
+  // Course library translations
+  courseLibrary: 'Maktaba ya Kozi',
+  libraryEmpty: 'Bado hakuna kozi zilizohifadhiwa.',
+  openCourse: 'Fungua',
+  renameCourse: 'Badilisha jina',
+  deleteCourse: 'Futa',
+  saveName: 'Hifadhi',
+  confirmDeleteCourse: 'Una uhakika unataka kufuta kozi hii?',
+  savedOn: 'Imehifadhiwa',
+  lessonCount: { one: 'somo {count}', other: 'masomo {count}' },
+  // Custom course form translations
+  customCourse: 'Tengeneza Kozi Maalum',
+  topicLabel: 'Mada',
+  topicPlaceholder: 'mf. AI kwa maafisa ugani wa kilimo',
+  audienceLabel: 'Walengwa',
+  audiencePlaceholder: 'mf. wahudumu wa wateja',
+  difficultyLabel: 'Kiwango cha Ugumu',
+  difficultyBeginner: 'Mwanzo',
+  difficultyIntermediate: 'Kati',
+  difficultyAdvanced: 'Juu',
+  lessonCountLabel: 'Idadi ya Masomo',
+  multipleChoiceCountLabel: 'Maswali ya Kuchagua Jibu',
+  trueFalseCountLabel: 'Maswali ya Kweli/Si Kweli',
+  lessonLengthLabel: 'Urefu wa Somo',
+  lengthShort: 'Fupi',
+  lengthMedium: 'Wastani',
+  lengthLong: 'Refu',
+  generateCustomCourse: 'Tengeneza Kozi',
+  // Quiz results translations
+  quizResults: 'Matokeo ya Jaribio',
+  yourScore: 'Alama zako',
+  quizPassed: 'Umefaulu!',
+  quizFailed: 'Hujafaulu. Jaribu tena.',
+  passThresholdNote: 'Ili kufaulu unahitaji angalau {threshold}%.',
+  yourAnswerLabel: 'Jibu lako',
+  correctAnswerLabel: 'Jibu sahihi',
+  noAnswer: 'Halikujibiwa',
+  retakeQuiz: 'Rudia Jaribio',
+  attemptHistory: 'Historia ya Majaribio',
+  attemptLabel: 'Jaribio',
+  attemptCount: { one: 'jaribio {count}', other: 'majaribio {count}' },
+  // Question type translations
+  multiSelectCountLabel: 'Maswali ya Kuchagua Majibu Mengi',
+  fillInTheBlankCountLabel: 'Maswali ya Kujaza Nafasi',
+  orderingCountLabel: 'Maswali ya Kupanga kwa Mpangilio',
+  matchingCountLabel: 'Maswali ya Kuoanisha',
+  selectAllThatApply: 'Chagua yote yaliyo sahihi',
+  typeYourAnswer: 'Andika jibu lako',
+  arrangeInOrder: 'Panga vipengele kwa mpangilio sahihi',
+  matchEachItem: 'Oanisha kila kipengele na jozi yake',
+  chooseMatch: 'Chagua...',
+  moveUp: 'Sogeza juu',
+  moveDown: 'Sogeza chini',
+  submitAnswer: 'Wasilisha Jibu',
+  partiallyCorrectFeedback: 'Sahihi kwa sehemu',
+  // Short-answer translations
+  shortAnswerCountLabel: 'Maswali ya Majibu Mafupi',
+  writeYourAnswer: 'Andika jibu lako kwa maneno yako mwenyewe',
+  gradingAnswer: 'Jibu lako linasahihishwa...',
+  failedGrading: 'Imeshindwa kusahihisha jibu lako.',
+  gradeScoreLabel: 'Alama',
+  whatWasRight: 'Ulichopata sahihi',
+  whatWasMissing: 'Kilichokosekana',
+  modelAnswerLabel: 'Jibu la mfano',
+  // Lesson tutor translations
+  lessonTutor: 'Muulize Mkufunzi',
+  tutorIntro: 'Una swali kuhusu somo hili? Mkufunzi anajibu kutokana na somo na kozi.',
+  tutorPlaceholder: 'Andika swali lako...',
+  sendMessage: 'Tuma',
+  tutorThinking: 'Mkufunzi anafikiri...',
+  learnerLabel: 'Wewe',
+  tutorLabel: 'Mkufunzi',
+  failedTutorReply: 'Mkufunzi ameshindwa kujibu. Tafadhali jaribu tena.',
+  // Course translation translations
+  courseInOtherLanguage: 'Kozi hii imeandikwa kwa lugha nyingine.',
+  translateCourse: 'Tafsiri kwa {language}',
+  translatingCourse: 'Inatafsiri kozi...',
+  translationError: 'Imeshindwa kutafsiri kozi. Tafadhali jaribu tena.',
+  // Bilingual reading mode translations
+  standardView: 'Mwonekano wa kawaida',
+  bilingualView: 'Kisomali na Kiingereza sambamba',
+  somaliColumn: 'Kisomali',
+  englishColumn: 'Kiingereza',
+  bilingualQuizNote: 'Maswali haya ni ya kusoma tu. Yajibu katika mwonekano wa kawaida.',
+  formatBilingual: 'Markdown ya lugha mbili (Kisomali na Kiingereza)',
+  // Terminology translations
+  terminology: 'Hifadhi ya Istilahi',
+  terminologyIntro: 'Istilahi zilizoidhinishwa za {language} hutumika kozi zinapotengenezwa, kutafsiriwa au kuelezwa, na kozi hukaguliwa kwa matoleo yaliyokatazwa.',
+  termSource: 'Istilahi asilia (Kiingereza)',
+  termApproved: 'Istilahi iliyoidhinishwa ({language})',
+  termForbidden: 'Matoleo yaliyokatazwa (tenganisha kwa koma)',
+  addTerm: 'Ongeza Istilahi',
+  removeTerm: 'Ondoa',
+  importTerminology: 'Ingiza (JSON au CSV)',
+  exportTerminologyJson: 'Hamisha JSON',
+  exportTerminologyCsv: 'Hamisha CSV',
+  terminologyImported: { one: 'Istilahi {count} imeingizwa.', other: 'Istilahi {count} zimeingizwa.' },
+  terminologyImportError: 'Imeshindwa kuingiza faili.',
+  termFlagsHeading: 'Ukaguzi wa Istilahi',
+  termFlagsIntro: 'Sehemu hizi zinatumia toleo lililokatazwa la istilahi iliyoidhinishwa:',
+  termFlagHint: 'Tumia "{approved}" ({source})',
+  locationTitle: 'Kichwa cha kozi',
+  locationOutline: 'Kipengele cha muhtasari {number}',
+  locationLesson: 'Somo {number}',
+  locationSummary: 'Muhtasari wa kozi',
+  locationGlossary: 'Istilahi ya faharasa {number}',
+  locationQuestion: 'Swali {number}',
+  // Glossary translations
+  glossary: 'Faharasa',
+  // SCORM export translations
+  formatScorm12: 'Kifurushi cha SCORM 1.2 (zip)',
+  formatScorm2004: 'Kifurushi cha SCORM 2004 (zip)',
+  submitQuiz: 'Wasilisha Jaribio',
+  shortAnswerNotScored: 'Jibu hili halipewi alama moja kwa moja. Lilinganishe na jibu la mfano.',
+  // QTI package export translations
+  formatQtiPackage: 'Kifurushi cha QTI 2.1 pamoja na masomo (.zip)',
+  // HTML, EPUB and print export translations
+  formatStandaloneHtml: 'Ukurasa wa wavuti wenye jaribio nje ya mtandao (HTML)',
+  formatEpub: 'Kitabu pepe (EPUB)',
+  formatPrint: 'Chapisha au hifadhi kama PDF',
+  answerKey: 'Ufunguo wa majibu',
+  // Course import translations
+  importCourse: 'Ingiza kozi',
+  courseImportError: 'Imeshindikana kuingiza faili hili.',
+  importedCourse: 'Imeingizwa',
+  // Course sharing translations
+  shareCourse: 'Shiriki',
+  shareLinkIntro: 'Yeyote atakayefungua kiungo hiki atapata nakala ya kozi kwenye programu yake. Hakuna kinachopakiwa: kozi imebebwa ndani ya kiungo.',
+  shareLinksIntro: 'Kozi hii ni ndefu mno kwa kiungo kimoja, kwa hiyo imegawanywa katika viungo {count}. Tuma vyote; kozi itafunguka kiungo cha mwisho kitakapofunguliwa.',
+  shareLinkPart: 'Kiungo {part} kati ya {total}',
+  copyLink: 'Nakili',
+  linkCopied: 'Imenakiliwa',
+  shareViaWhatsApp: 'WhatsApp',
+  shareLinkOther: 'Zaidi…',
+  shareLinkError: 'Imeshindikana kuunda kiungo cha kushiriki kozi hii.',
+  sharePartReceived: 'Sehemu {received} kati ya {total} ya kozi iliyoshirikiwa imepokelewa. Fungua viungo vilivyobaki ili kuiona.',
+  shareLinkInvalid: 'Kiungo hiki cha kushiriki kimeharibika au hakijakamilika. Mwombe aliyetuma ashiriki kozi tena.',
+  // QR code translations
+  showQrCode: 'Msimbo wa QR',
+  hideQrCode: 'Ficha msimbo wa QR',
+  shareQrCodeDescription: 'Msimbo wa QR wa kiungo cha kushiriki',
+  // Certificate translations
+  getCertificate: 'Pata cheti',
+  certificateTitle: 'Cheti cha Kukamilisha',
+  certificateAwardedTo: 'Hii inathibitisha kwamba',
+  certificateCompletedCourse: 'amekamilisha kozi kwa mafanikio',
+  certificateScoreLabel: 'Alama',
+  certificateIdLabel: 'Kitambulisho cha cheti',
+  certificateQrDescription: 'Msimbo wa QR wa kuthibitisha cheti hiki',
+  certificateScanToVerify: 'Changanua ili kuthibitisha',
+  certificateNameLabel: 'Jina lako kama linavyopaswa kuonekana kwenye cheti',
+  createCertificate: 'Unda cheti',
+  certificateError: 'Imeshindikana kuunda cheti.',
+  downloadCertificateSvg: 'Pakua (SVG)',
+  downloadCertificatePdf: 'Chapisha au hifadhi kama PDF',
+  certificateCodeLabel: 'Msimbo wa uthibitisho',
+  verifyCertificate: 'Thibitisha cheti',
+  verifyCertificateIntro: 'Bandika msimbo wa uthibitisho wa cheti, au changanua msimbo wake wa QR kwa kamera ya simu ili kufungua skrini hii ukiwa umejazwa. Ukaguzi unafanyika kwenye kifaa hiki.',
+  verifyCertificateButton: 'Thibitisha',
+  certificateValid: 'Cheti hiki ni halali.',
+  certificateInvalid: 'Cheti hiki si halali: maelezo yake yamebadilishwa, au hakikutolewa na programu hii.',
+  certificateMalformed: 'Huu si msimbo wa uthibitisho wa cheti.',
+  certificateNameField: 'Jina',
+  certificateCourseField: 'Kozi',
+  certificateLevelField: 'Kiwango',
+  certificateDateField: 'Tarehe',
+  certificateCourseFingerprint: 'Alama ya kidole ya kozi',
+  certificateUnsigned: 'Cheti hiki hakina msimbo wa uthibitisho, kwa sababu nakala hii ya programu haijawekwa kutia sahihi vyeti.',
+  // Learning path translations
+  learningPath: 'Njia ya kujifunza',
+  pathProgress: 'Viwango {completed} kati ya {total} vimekamilika',
+  pathLocked: 'Faulu "{level}" ili kufungua',
+  pathAvailable: 'Anza kiwango hiki',
+  pathInProgress: 'Kinaendelea',
+  pathCompleted: 'Kimekamilika',
+  pathBestScore: 'alama bora {percentage}%',
+  // Progress tracking translations
+  progressDashboard: 'Maendeleo yangu',
+  progressIntro: 'Masomo uliyosoma na matokeo ya Majaribio ya Maarifa, yanahifadhiwa kwenye kifaa hiki pekee. Somo huhesabiwa kuwa limekamilika likishakuwa wazi muda wa kutosha kulisoma.',
+  progressEmpty: 'Fungua somo au fanya Jaribio la Maarifa ili kuanza kufuatilia maendeleo yako.',
+  currentStreak: 'Mfululizo wa sasa',
+  longestStreak: 'Mfululizo mrefu zaidi',
+  dayCount: { one: 'siku {count}', other: 'siku {count}' },
+  lessonsCompletedStat: 'Masomo yaliyokamilika',
+  readingTimeStat: 'Muda wa kusoma',
+  quizzesPassedStat: 'Majaribio ya Maarifa yaliyofaulu',
+  readingMinutes: 'dakika {minutes}',
+  courseProgressHeading: 'Kozi',
+  courseCompletion: '{percentage}% imekamilika',
+  lessonsCompletedCount: 'masomo {completed}/{total}',
+  weakestTopics: 'Mada dhaifu zaidi',
+  weakTopicScore: '{percentage}% sahihi',
+  noWeakTopics: 'Bado hakuna mada dhaifu. Masomo ambayo maswali yake unakosea kwenye Jaribio la Maarifa yataonekana hapa.',
+  exportProgress: 'Hamisha maendeleo',
+  lessonCompletedLabel: 'Somo limekamilika',
+  // Learner profile translations
+  defaultLearnerName: 'Mwanafunzi mkuu',
+  learningAs: 'Anayejifunza: {name}',
+  switchLearner: 'Badilisha mwanafunzi',
+  removeLearner: 'Ondoa mwanafunzi',
+  confirmRemoveLearner: 'Ungependa kumwondoa {name} na kufuta kozi, maendeleo na maoni yake kwenye kifaa hiki?',
+  whoIsLearning: 'Nani anajifunza?',
+  enterPin: 'PIN ya {name}',
+  wrongPin: 'PIN hiyo si sahihi.',
+  unlockProfile: 'Fungua',
+  cancel: 'Ghairi',
+  addLearner: 'Ongeza mwanafunzi',
+  learnerNameLabel: 'Jina la mwanafunzi',
+  pinOptionalLabel: 'PIN (si lazima, tarakimu 4 hadi 8)',
+  confirmPinLabel: 'Rudia PIN',
+  pinInvalid: 'PIN ina tarakimu 4 hadi 8.',
+  pinMismatch: 'PIN mbili hazilingani.',
+  profileCreateError: 'Mwanafunzi hakuweza kuongezwa.',
+  supervisorExport: 'Uhamishaji wa msimamizi',
+  supervisorExportIntro: 'Pakua maendeleo ya kozi na matokeo ya Majaribio ya Maarifa ya kila mwanafunzi kwenye kifaa hiki.',
+  exportResultsCsv: 'Hamisha matokeo (CSV)',
+  exportResultsJson: 'Hamisha matokeo (JSON)',
+};
@@ -0,0 +1,562 @@
+// A small Markdown parser shared by on-screen rendering (MarkdownContent.tsx) and
+// the course downloads, so both read model output the same way. It covers the
+// subset the model produces: headings, paragraphs, bullet and numbered lists,
+// block quotes, fenced code, GFM tables, rules, emphasis, inline code and links.
+// Raw HTML is never passed through: tags are dropped and their text is kept.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HTML_TAG = /^(?:<!--[\s\S]*?-->|<\/?[A-Za-z][\w-]*(?:\s[^<>]*)?\/?>)/;
+const SAFE_URL = /^(https?:|mailto:|#)/i;
+
+// ---- Inline parsing ----
+
+const isWhitespace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+// Finds the closing delimiter for emphasis starting at `from`, skipping code spans.
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  let index = from;
+  while (index < text.length) {
+    if (text[index] === '\\') {
+      index += 2;
+      continue;
+    }
+    if (text[index] === '`') {
+      const run = text.slice(index).match(/^`+/)![0];
+      const end = text.indexOf(run, index + run.length);
+      index = end === -1 ? index + run.length : end + run.length;
+      continue;
+    }
+    if (
+      text.startsWith(delimiter, index) &&
+      index > from &&
+      !isWhitespace(text[index - 1]) &&
+      // A single * or _ must not be half of a double delimiter
+      (delimiter.length === 2 || text[index + 1] !== delimiter[0]) &&
+      // Underscores only close at a word boundary, so snake_case stays intact
+      (delimiter[0] !== '_' || !/\w/.test(text[index + delimiter.length] ?? ''))
+    ) {
+      return index;
+    }
+    index++;
+  }
+  return -1;
+};
+
+// Finds the bracket matching the "[" at `from`, allowing nested brackets.
+const findLinkLabelEnd = (text: string, from: number): number => {
+  let depth = 0;
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') index++;
+    else if (text[index] === '[') depth++;
+    else if (text[index] === ']' && --depth === 0) return index;
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === '\\' && index + 1 < text.length) {
+      if (text[index + 1] === '\n') {
+        push({ type: 'break' });
+      } else if (/[!-/:-@[-`{-~]/.test(text[index + 1])) {
+        buffer += text[index + 1];
+      } else {
+        buffer += char + text[index + 1];
+      }
+      index += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      if (buffer.endsWith('  ')) {
+        buffer = buffer.trimEnd();
+        push({ type: 'break' });
+      } else {
+        buffer += '\n';
+      }
+      index++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = rest.match(/^`+/)![0];
+      const end = text.indexOf(run, index + run.length);
+      if (end !== -1) {
+        const code = text.slice(index + run.length, end).replace(/\n/g, ' ');
+        push({ type: 'code', text: code.length > 2 && code.startsWith(' ') && code.endsWith(' ') ? code.slice(1, -1) : code });
+        index = end + run.length;
+        continue;
+      }
+      buffer += run;
+      index += run.length;
+      continue;
+    }
+
+    if (char === '<') {
+      const autolink = rest.match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+      if (autolink) {
+        push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+        index += autolink[0].length;
+        continue;
+      }
+      const tag = rest.match(HTML_TAG);
+      if (tag) {
+        if (/^<br\s*\/?>$/i.test(tag[0])) push({ type: 'break' });
+        index += tag[0].length; // Raw HTML is dropped; any text between tags stays
+        continue;
+      }
+    }
+
+    if (char === '!' && text[index + 1] === '[') {
+      // Images are shown as their alt text; the app never loads remote images
+      const labelEnd = findLinkLabelEnd(text, index + 1);
+      const target = labelEnd === -1 ? null : text.slice(labelEnd + 1).match(/^\(\s*<?([^\s()<>]*)>?(?:\s+"[^"]*")?\s*\)/);
+      if (target) {
+        flush();
+        nodes.push(...parseInline(text.slice(index + 2, labelEnd)));
+        index = labelEnd + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const labelEnd = findLinkLabelEnd(text, index);
+      const target = labelEnd === -1 ? null : text.slice(labelEnd + 1).match(/^\(\s*<?([^\s()<>]*)>?(?:\s+"[^"]*")?\s*\)/);
+      if (target) {
+        const children = parseInline(text.slice(index + 1, labelEnd));
+        if (SAFE_URL.test(target[1])) {
+          push({ type: 'link', href: target[1], children });
+        } else {
+          flush();
+          nodes.push(...children); // Unsafe schemes such as javascript: lose the link but keep the text
+        }
+        index = labelEnd + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    const delimiter = rest.startsWith('**') || rest.startsWith('__') || rest.startsWith('~~')
+      ? rest.slice(0, 2)
+      : char === '*' || char === '_' ? char : null;
+    const opensWord = delimiter && !isWhitespace(text[index + delimiter.length]) &&
+      (delimiter[0] !== '_' || !/\w/.test(text[index - 1] ?? ''));
+    if (delimiter && opensWord) {
+      const end = findClosing(text, delimiter, index + delimiter.length);
+      if (end !== -1) {
+        const children = parseInline(text.slice(index + delimiter.length, end));
+        const type = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+        push({ type, children });
+        index = end + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+};
+
+// ---- Block parsing ----
+
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  for (let index = 0; index < trimmed.length; index++) {
+    const char = trimmed[index];
+    if (char === '\\' && trimmed[index + 1] === '|') {
+      cell += '|';
+      index++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      cell += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const readAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1]) && lines[index + 1].includes('-');
+
+// True when a line starts a block that interrupts a running paragraph.
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || BLOCKQUOTE.test(line) ||
+    LIST_ITEM.test(line) || isTableStart(lines, index);
+};
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const dedent = (line: string, width: number): string => {
+  let removed = 0;
+  let index = 0;
+  while (index < line.length && removed < width && (line[index] === ' ' || line[index] === '\t')) {
+    removed += line[index] === '\t' ? 4 : 1;
+    index++;
+  }
+  return line.slice(index);
+};
+
+// Every pass through the loop after the blank-line check adds exactly one block, so
+// `starts` receives the first line of each top-level block.
+const parseLines = (lines: string[], starts?: number[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+    starts?.push(index);
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(marker)) {
+        body.push(lines[index]);
+        index++;
+      }
+      index++; // Skip the closing fence (or run past the end of an unterminated one)
+      blocks.push({ type: 'code', language: fence[2], text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[index + 1]).map(readAlignment);
+      const rows: MarkdownInline[][][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].trim() !== '' && lines[index].includes('|')) {
+        const cells = splitTableRow(lines[index]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        index++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map(parseInline), rows });
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const body: string[] = [];
+      while (index < lines.length && lines[index].trim() !== '' && (BLOCKQUOTE.test(lines[index]) || !startsBlock(lines, index))) {
+        body.push(lines[index].replace(BLOCKQUOTE, ''));
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(body) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const baseIndent = indentOf(listItem[1]);
+      const ordered = /\d/.test(listItem[2]);
+      const start = ordered ? parseInt(listItem[2], 10) : 1;
+      const items: MarkdownBlock[][] = [];
+
+      while (index < lines.length) {
+        const match = lines[index].match(LIST_ITEM);
+        if (!match || indentOf(match[1]) !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+
+        const contentIndent = baseIndent + match[2].length + 1;
+        const body = [match[3]];
+        index++;
+        while (index < lines.length) {
+          const next = lines[index];
+          if (next.trim() === '') {
+            // A blank line continues the item only if indented content follows
+            const following = lines.slice(index + 1).find(candidate => candidate.trim() !== '');
+            if (following === undefined || indentOf(following) < contentIndent) break;
+            body.push('');
+            index++;
+            continue;
+          }
+          if (indentOf(next) >= contentIndent || (indentOf(next) > baseIndent && LIST_ITEM.test(next))) {
+            body.push(dedent(next, contentIndent));
+            index++;
+            continue;
+          }
+          if (!startsBlock(lines, index) && body[body.length - 1] !== '') {
+            body.push(next.trim()); // Lazy continuation of the item's paragraph
+            index++;
+            continue;
+          }
+          break;
+        }
+        items.push(parseLines(body));
+
+        // Skip blank lines between items of the same list
+        let lookahead = index;
+        while (lookahead < lines.length && lines[lookahead].trim() === '') lookahead++;
+        const nextItem = lookahead < lines.length ? lines[lookahead].match(LIST_ITEM) : null;
+        if (nextItem && indentOf(nextItem[1]) === baseIndent && /\d/.test(nextItem[2]) === ordered) index = lookahead;
+        else break;
+      }
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() !== '' && (paragraph.length === 0 || !startsBlock(lines, index))) {
+      paragraph.push(lines[index].trimStart()); // Trailing double spaces mark a hard line break
+      index++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n').trimEnd()) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (markdown: string): MarkdownBlock[] =>
+  parseLines(markdown.replace(/\r\n?/g, '\n').split('\n'));
+
+// Splits Markdown into the source text of its top-level blocks (paragraphs, lists,
+// tables, code blocks...), so two translations of a lesson can be lined up block by block.
+export const splitMarkdownBlocks = (markdown: string): string[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const starts: number[] = [];
+  parseLines(lines, starts);
+  return starts.map((start, index) => lines.slice(start, starts[index + 1] ?? lines.length).join('\n').trimEnd());
+};
+
+// ---- Plain text and sanitized Markdown for the downloads ----
+
+const inlineToPlainText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'break':
+        return '\n';
+      default:
+        return inlineToPlainText(node.children);
+    }
+  }).join('');
+
+const blocksToPlainText = (blocks: MarkdownBlock[], indent = '', separator = '\n\n'): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        return indent + inlineToPlainText(block.children).replace(/\n/g, `\n${indent}`);
+      case 'code':
+        return block.text.split('\n').map(line => indent + line).join('\n');
+      case 'blockquote':
+        return blocksToPlainText(block.children, indent + '  ');
+      case 'rule':
+        return '';
+      case 'table':
+        return [block.header, ...block.rows]
+          .map(row => indent + row.map(inlineToPlainText).join(' | '))
+          .join('\n');
+      case 'list':
+        return block.items.map((item, itemIndex) => {
+          const marker = block.ordered ? `${block.start + itemIndex}. ` : '• ';
+          const text = blocksToPlainText(item, indent + ' '.repeat(marker.length), '\n');
+          return indent + marker + text.slice(indent.length + marker.length);
+        }).join('\n');
+    }
+  }).filter(text => text !== '').join(separator);
+
+export const markdownToPlainText = (markdown: string): string =>
+  blocksToPlainText(parseMarkdown(markdown)).trim();
+
+// Headings inside lessons and summaries sit below the course's own three heading
+// levels, both on screen and in the Markdown download.
+export const HEADING_OFFSET = 3;
+
+// ---- HTML ----
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export const escapeHtml = (text: string): string => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+// `restricted` keeps to the XHTML subset QTI 2.1 allows in item bodies: no link
+// targets, inline styles, list start numbers or <del>.
+export interface HtmlOptions {
+  restricted?: boolean;
+}
+
+const inlineToHtml = (nodes: MarkdownInline[], options: HtmlOptions): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.text);
+      case 'strong':
+      case 'em':
+        return `<${node.type}>${inlineToHtml(node.children, options)}</${node.type}>`;
+      case 'del':
+        return options.restricted
+          ? `<span class="strikethrough">${inlineToHtml(node.children, options)}</span>`
+          : `<del>${inlineToHtml(node.children, options)}</del>`;
+      case 'code':
+        return `<code>${escapeHtml(node.text)}</code>`;
+      case 'break':
+        return '<br/>';
+      case 'link':
+        return options.restricted
+          ? `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children, options)}</a>`
+          : `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${inlineToHtml(node.children, options)}</a>`;
+    }
+  }).join('');
+
+const alignAttribute = (align: TableAlignment, options: HtmlOptions) =>
+  !align ? '' : options.restricted ? ` class="align-${align}"` : ` style="text-align: ${align}"`;
+
+const blocksToHtml = (blocks: MarkdownBlock[], options: HtmlOptions): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(6, block.level + HEADING_OFFSET);
+        return `<h${level}>${inlineToHtml(block.children, options)}</h${level}>`;
+      }
+      case 'paragraph':
+        return `<p>${inlineToHtml(block.children, options)}</p>`;
+      case 'code':
+        return `<pre><code${block.language ? ` class="language-${escapeHtml(block.language)}"` : ''}>${escapeHtml(block.text)}</code></pre>`;
+      case 'blockquote':
+        return `<blockquote>${blocksToHtml(block.children, options)}</blockquote>`;
+      case 'rule':
+        return '<hr/>';
+      case 'list': {
+        // Single-paragraph items render without a wrapping <p>, as on screen
+        const items = block.items.map(item =>
+          `<li>${item.length === 1 && item[0].type === 'paragraph' ? inlineToHtml(item[0].children, options) : blocksToHtml(item, options)}</li>`
+        ).join('');
+        return block.ordered
+          ? `<ol${block.start !== 1 && !options.restricted ? ` start="${block.start}"` : ''}>${items}</ol>`
+          : `<ul>${items}</ul>`;
+      }
+      case 'table': {
+        const header = block.header.map((cell, column) =>
+          `<th${alignAttribute(block.align[column], options)}>${inlineToHtml(cell, options)}</th>`
+        ).join('');
+        const rows = block.rows.map(row =>
+          `<tr>${row.map((cell, column) => `<td${alignAttribute(block.align[column], options)}>${inlineToHtml(cell, options)}</td>`).join('')}</tr>`
+        ).join('');
+        return `<div class="markdown-table-wrapper"><table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table></div>`;
+      }
+    }
+  }).join('\n');
+
+// Static HTML for the exported packages, matching what MarkdownContent renders on screen.
+// Void elements are self-closed so the output is also well-formed XML.
+export const markdownToHtml = (markdown: string, options: HtmlOptions = {}): string =>
+  blocksToHtml(parseMarkdown(markdown), options);
+
+export const inlineMarkdownToHtml = (text: string, options: HtmlOptions = {}): string =>
+  inlineToHtml(parseInline(text), options);
+
+// Prepares model-written Markdown for the Markdown download so it reads the way the
+// renderer shows it: raw HTML is removed outside code, and headings are demoted by
+// HEADING_OFFSET levels.
+export const sanitizeMarkdown = (markdown: string): string => {
+  let inFence: string | null = null;
+  return markdown.replace(/\r\n?/g, '\n').split('\n').map(line => {
+    const fence = line.match(FENCE);
+    if (fence && (inFence === null || line.trim().startsWith(inFence))) {
+      inFence = inFence === null ? fence[1] : null;
+      return line;
+    }
+    if (inFence !== null) return line;
+    const heading = line.match(/^ {0,3}(#{1,6})(\s|$)/);
+    const demoted = heading
+      ? '#'.repeat(Math.min(6, heading[1].length + HEADING_OFFSET)) + line.slice(heading[0].length - heading[2].length)
+      : line;
+    return demoted
+      .split(/(`+[^`]*`+)/)
+      .map((part, partIndex) => (partIndex % 2 === 1 ? part : part.replace(/<br\s*\/?>/gi, '  ').replace(/<!--[\s\S]*?-->|<\/?[A-Za-z][\w-]*(?:\s[^<>]*)?\/?>/g, '')))
+      .join('');
+  }).join('\n');
+};
+
+// Undoes the heading demotion of sanitizeMarkdown for Markdown read back from a
+// download (see courseImport.ts).
+export const restoreHeadings = (markdown: string): string => {
+  let inFence: string | null = null;
+  return markdown.split('\n').map(line => {
+    const fence = line.match(FENCE);
+    if (fence && (inFence === null || line.trim().startsWith(inFence))) {
+      inFence = inFence === null ? fence[1] : null;
+      return line;
+    }
+    if (inFence !== null) return line;
+    const heading = line.match(/^ {0,3}(#{4,6})(\s|$)/);
+    return heading ? line.replace(heading[1], heading[1].slice(HEADING_OFFSET)) : line;
+  }).join('\n');
+};
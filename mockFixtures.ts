@@ -0,0 +1,198 @@
+import { Course } from './interfaces';
+
+// Fixed courses served by the mock provider so the app can be developed and
+// demoed without a Gemini key or network access.
+export const mockCourses: Record<'so' | 'en', Course> = {
+  so: {
+    title: 'Hordhac Sirdoonka Macmalka ah',
+    outline: [
+      'Waa maxay sirdoonka macmalka ah?',
+      'Sida mashiinadu xogta uga bartaan',
+      'Isticmaalka AI ee nolol maalmeedka',
+    ],
+    lessons: [
+      {
+        title: 'Waa maxay sirdoonka macmalka ah?',
+        content: 'Sirdoonka macmalka ah (AI) waa barnaamijyo kombiyuutar oo qabta hawlo u baahan garasho, sida aqoonsiga codka, turjumaadda iyo go\'aan qaadashada.\n\nAI-ga casriga ah wuxuu ku tiirsan yahay xog badan iyo habab xisaabeed.',
+      },
+      {
+        title: 'Sida mashiinadu xogta uga bartaan',
+        content: 'Barashada mashiinka waxay ka dhigan tahay in nidaamku tusaalooyin ka barto halkii si toos ah loogu qori lahaa xeerar.\n\nXogta tababarka ayaa lagu tusaa moodeelka, kadibna waxaa lagu tijaabiyaa xog cusub oo uusan hore u arag.',
+      },
+      {
+        title: 'Isticmaalka AI ee nolol maalmeedka',
+        content: 'AI waxaa laga helaa taleefannada, raadinta internetka, tarjumaadda luqadaha iyo adeegyada macmiilka.\n\nWaa muhiim in si mas\'uuliyad leh loo isticmaalo oo la ilaaliyo xogta dadka.',
+      },
+    ],
+    lessonSummaries: [
+      'AI waa barnaamijyo qabta hawlo u baahan garasho.',
+      'Mashiinadu waxay ka bartaan tusaalooyin xog ah.',
+      'AI waxaa lagu isticmaalaa adeegyo badan oo maalinle ah.',
+    ],
+    summary: 'Koorsadan waxay sharaxday waxa AI yahay, sida mashiinadu u bartaan iyo meelaha laga isticmaalo nolol maalmeedka.',
+    glossary: [
+      { term: 'Sirdoonka macmalka ah', english: 'Artificial intelligence', definition: 'Barnaamijyo kombiyuutar oo qabta hawlo u baahan garasho.' },
+      { term: 'Barashada mashiinka', english: 'Machine learning', definition: 'Hab uu nidaamku tusaalooyin uga barto halkii xeerar loogu qori lahaa.' },
+      { term: 'Xogta tababarka', english: 'Training data', definition: 'Tusaalooyinka lagu tuso moodeelka si uu wax uga barto.' },
+      { term: 'Moodeelka', english: 'Model', definition: 'Natiijada barashada: barnaamij saadaal ka bixiya xog cusub.' },
+    ],
+    quiz: [
+      {
+        question: 'Maxay ku tiirsan yihiin nidaamyada AI-ga casriga ah?',
+        type: 'multiple-choice',
+        options: ['Xog badan iyo habab xisaabeed', 'Koronto keliya', 'Qalab gacmeed', 'Warqado daabacan'],
+        correctAnswer: 'Xog badan iyo habab xisaabeed',
+      },
+      {
+        question: 'Barashada mashiinka waxay ka bartaa tusaalooyin halkii xeerar toos ah loo qori lahaa.',
+        type: 'true-false',
+        options: ['Run', 'Been'],
+        correctAnswer: 'Run',
+      },
+      {
+        question: 'Moodeelka waxaa lagu tijaabiyaa xogta tababarka oo keliya.',
+        type: 'true-false',
+        options: ['Run', 'Been'],
+        correctAnswer: 'Been',
+      },
+      {
+        question: 'Dooro dhammaan meelaha laga isticmaalo AI nolol maalmeedka.',
+        type: 'multi-select',
+        options: ['Tarjumaadda luqadaha', 'Raadinta internetka', 'Karinta biyaha', 'Adeegyada macmiilka'],
+        correctAnswer: 'Tarjumaadda luqadaha; Raadinta internetka; Adeegyada macmiilka',
+        correctAnswers: ['Tarjumaadda luqadaha', 'Raadinta internetka', 'Adeegyada macmiilka'],
+      },
+      {
+        question: 'Moodeelka waxaa lagu tababaraa xogta ____.',
+        type: 'fill-in-the-blank',
+        options: [],
+        correctAnswer: 'tababarka',
+        acceptedAnswers: ['tababar'],
+      },
+      {
+        question: 'U kala horreysii tallaabooyinka barashada mashiinka.',
+        type: 'ordering',
+        options: ['Ku tijaabi xog cusub', 'Ururi xogta', 'Tababar moodeelka'],
+        correctAnswer: 'Ururi xogta → Tababar moodeelka → Ku tijaabi xog cusub',
+        correctOrder: ['Ururi xogta', 'Tababar moodeelka', 'Ku tijaabi xog cusub'],
+      },
+      {
+        question: 'Isku aadi erey kasta iyo macnihiisa.',
+        type: 'matching',
+        options: ['Xogta lagu baro moodeelka', 'Barnaamij qabta hawlo garasho u baahan', 'Ka barashada tusaalooyin'],
+        correctAnswer: 'AI → Barnaamij qabta hawlo garasho u baahan; Barashada mashiinka → Ka barashada tusaalooyin; Xogta tababarka → Xogta lagu baro moodeelka',
+        matchingPairs: [
+          { left: 'AI', right: 'Barnaamij qabta hawlo garasho u baahan' },
+          { left: 'Barashada mashiinka', right: 'Ka barashada tusaalooyin' },
+          { left: 'Xogta tababarka', right: 'Xogta lagu baro moodeelka' },
+        ],
+      },
+      {
+        question: 'Sharax sababta ay muhiim u tahay in moodeel lagu tijaabiyo xog cusub.',
+        type: 'short-answer',
+        options: [],
+        correctAnswer: 'Xog cusub ayaa muujisa in moodeelku si sax ah u shaqeeyo marka uu la kulmo tusaalooyin uusan hore u arag, halkii uu xogta tababarka oo keliya xafidi lahaa.',
+        rubric: [
+          'Moodeelku wuxuu la kulmaa tusaalooyin uusan hore u arag',
+          'Waxay muujisaa in moodeelku aanu xogta tababarka xafidin oo keliya',
+        ],
+      },
+    ],
+  },
+  en: {
+    title: 'Introduction to Artificial Intelligence',
+    outline: [
+      'What is artificial intelligence?',
+      'How machines learn from data',
+      'AI in everyday life',
+    ],
+    lessons: [
+      {
+        title: 'What is artificial intelligence?',
+        content: 'Artificial intelligence (AI) is software that performs tasks which normally require human understanding, such as recognizing speech, translating text and making decisions.\n\nModern AI relies on large amounts of data and mathematical methods.',
+      },
+      {
+        title: 'How machines learn from data',
+        content: 'Machine learning means a system learns from examples instead of following rules written by hand.\n\nThe model is shown training data and then evaluated on new data it has not seen before.',
+      },
+      {
+        title: 'AI in everyday life',
+        content: 'AI powers phone assistants, web search, language translation and customer support.\n\nIt is important to use it responsibly and to protect people\'s data.',
+      },
+    ],
+    lessonSummaries: [
+      'AI is software that performs tasks requiring understanding.',
+      'Machines learn from examples in data.',
+      'AI is used in many everyday services.',
+    ],
+    summary: 'This course explained what AI is, how machines learn and where AI is used in everyday life.',
+    glossary: [
+      { term: 'Artificial intelligence', english: 'Artificial intelligence', definition: 'Software that performs tasks which normally require human understanding.' },
+      { term: 'Machine learning', english: 'Machine learning', definition: 'A way for a system to learn from examples instead of hand-written rules.' },
+      { term: 'Training data', english: 'Training data', definition: 'The examples a model is shown so it can learn from them.' },
+      { term: 'Model', english: 'Model', definition: 'The result of learning: a program that makes predictions about new data.' },
+    ],
+    quiz: [
+      {
+        question: 'What do modern AI systems rely on?',
+        type: 'multiple-choice',
+        options: ['Large amounts of data and mathematical methods', 'Electricity alone', 'Hand tools', 'Printed paper'],
+        correctAnswer: 'Large amounts of data and mathematical methods',
+      },
+      {
+        question: 'Machine learning learns from examples instead of hand-written rules.',
+        type: 'true-false',
+        options: ['True', 'False'],
+        correctAnswer: 'True',
+      },
+      {
+        question: 'A model is only evaluated on its training data.',
+        type: 'true-false',
+        options: ['True', 'False'],
+        correctAnswer: 'False',
+      },
+      {
+        question: 'Select every place where AI is used in everyday life.',
+        type: 'multi-select',
+        options: ['Language translation', 'Web search', 'Boiling water', 'Customer support'],
+        correctAnswer: 'Language translation; Web search; Customer support',
+        correctAnswers: ['Language translation', 'Web search', 'Customer support'],
+      },
+      {
+        question: 'A model is first shown ____ data.',
+        type: 'fill-in-the-blank',
+        options: [],
+        correctAnswer: 'training',
+        acceptedAnswers: ['train'],
+      },
+      {
+        question: 'Put the machine learning steps in order.',
+        type: 'ordering',
+        options: ['Evaluate on new data', 'Collect data', 'Train the model'],
+        correctAnswer: 'Collect data → Train the model → Evaluate on new data',
+        correctOrder: ['Collect data', 'Train the model', 'Evaluate on new data'],
+      },
+      {
+        question: 'Match each term with its meaning.',
+        type: 'matching',
+        options: ['Data used to teach a model', 'Software performing tasks that need understanding', 'Learning from examples'],
+        correctAnswer: 'AI → Software performing tasks that need understanding; Machine learning → Learning from examples; Training data → Data used to teach a model',
+        matchingPairs: [
+          { left: 'AI', right: 'Software performing tasks that need understanding' },
+          { left: 'Machine learning', right: 'Learning from examples' },
+          { left: 'Training data', right: 'Data used to teach a model' },
+        ],
+      },
+      {
+        question: 'Explain why a model should be evaluated on new data.',
+        type: 'short-answer',
+        options: [],
+        correctAnswer: 'New data shows whether the model works on examples it has not seen before, rather than only memorizing its training data.',
+        rubric: [
+          'The model meets examples it has not seen before',
+          'It shows the model is not just memorizing the training data',
+        ],
+      },
+    ],
+  },
+};
@@ -0,0 +1,92 @@
+import { LearnerProfile } from './interfaces';
+import type { Messages } from './i18n';
+
+// Learner profiles for a device shared by a team. The profile list lives in
+// localStorage; each profile's courses carry its id in the course library, and its
+// localStorage entries are stored under keys prefixed with the id. The default
+// profile keeps the unprefixed keys, so data from before profiles existed is its own.
+
+const PROFILES_KEY = 'geeddi-profiles';
+const LAST_PROFILE_KEY = 'geeddi-last-profile-id';
+export const DEFAULT_PROFILE_ID = 'default';
+
+const DEFAULT_PROFILE: LearnerProfile = { id: DEFAULT_PROFILE_ID, name: '', createdAt: 0 };
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const readProfile = (value: unknown): LearnerProfile | null => {
+  if (!value || typeof value !== 'object') return null;
+  const profile = value as Partial<LearnerProfile>;
+  if (typeof profile.id !== 'string' || typeof profile.name !== 'string') return null;
+  return {
+    id: profile.id,
+    name: profile.name,
+    createdAt: typeof profile.createdAt === 'number' ? profile.createdAt : 0,
+    ...(typeof profile.pinHash === 'string' ? { pinHash: profile.pinHash } : {}),
+  };
+};
+
+// Always includes the default profile, first
+export const loadProfiles = (): LearnerProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    const profiles = (Array.isArray(stored) ? stored : []).map(readProfile).filter((profile): profile is LearnerProfile => profile !== null);
+    const defaultProfile = profiles.find(profile => profile.id === DEFAULT_PROFILE_ID) ?? DEFAULT_PROFILE;
+    return [defaultProfile, ...profiles.filter(profile => profile.id !== DEFAULT_PROFILE_ID)];
+  } catch (err) {
+    console.error('Failed to load learner profiles:', err);
+    return [DEFAULT_PROFILE];
+  }
+};
+
+export const saveProfiles = (profiles: LearnerProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+// The profile used last on this device, or the default one
+export const lastProfileId = (profiles: LearnerProfile[]): string => {
+  const id = localStorage.getItem(LAST_PROFILE_KEY);
+  return id !== null && profiles.some(profile => profile.id === id) ? id : DEFAULT_PROFILE_ID;
+};
+
+export const rememberProfile = (id: string) => {
+  localStorage.setItem(LAST_PROFILE_KEY, id);
+};
+
+// A device with a single profile and no PIN opens straight into it, as before profiles existed
+export const needsProfileChoice = (profiles: LearnerProfile[]): boolean =>
+  profiles.length > 1 || profiles.some(profile => profile.pinHash !== undefined);
+
+export const profileStorageKey = (profileId: string, key: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? key : `geeddi-profile-${profileId}:${key}`;
+
+// Removes a profile's localStorage entries; its courses are deleted from the library separately
+export const clearProfileStorage = (profileId: string) => {
+  if (profileId === DEFAULT_PROFILE_ID) return;
+  const prefix = profileStorageKey(profileId, '');
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(prefix))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+export const profileDisplayName = (profile: LearnerProfile, t: Messages): string => profile.name || t.defaultLearnerName;
+
+const hashPin = async (profileId: string, pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${profileId}:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const isValidPin = (pin: string): boolean => /^\d{4,8}$/.test(pin);
+
+// `pin` is optional; an empty string leaves the profile open
+export const createProfile = async (name: string, pin: string): Promise<LearnerProfile> => {
+  const id = createId();
+  const profile: LearnerProfile = { id, name: name.trim().replace(/\s+/g, ' '), createdAt: Date.now() };
+  return pin ? { ...profile, pinHash: await hashPin(id, pin) } : profile;
+};
+
+export const checkPin = async (profile: LearnerProfile, pin: string): Promise<boolean> =>
+  profile.pinHash === undefined || profile.pinHash === await hashPin(profile.id, pin);
@@ -0,0 +1,276 @@
+import { Course, LearnerProfile, LessonProgress, SavedCourse } from './interfaces';
+import { csvCell } from './csv';
+
+// Learner progress. Lesson reading is recorded from the lesson accordions into the
+// course library, next to the Knowledge Check attempts; the dashboard summaries and
+// the export are derived from the library, so nothing leaves the device.
+
+const WORDS_PER_MINUTE = 200;
+const COMPLETION_SHARE = 0.5; // Share of a lesson's estimated reading time after which it counts as read
+const MIN_COMPLETION_MS = 15 * 1000;
+const MAX_COMPLETION_MS = 5 * 60 * 1000;
+const MAX_SESSION_MS = 30 * 60 * 1000; // A lesson left open for longer is assumed to be unattended
+const RECENT_ATTEMPTS = 3; // Weak topics are judged on the latest attempts, so improvement shows
+const WEAK_TOPIC_LIMIT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CourseProgressSummary {
+  saved: SavedCourse;
+  lessonsCompleted: number;
+  lessonCount: number;
+  readingMs: number;
+  passed: boolean;
+  bestPercentage: number | null;
+  completion: number; // Percentage; every lesson and the Knowledge Check count as one step each
+}
+
+export interface StudyStreak {
+  current: number; // Consecutive study days up to today, or up to yesterday when today has none yet
+  longest: number;
+}
+
+// A lesson whose quiz questions were answered poorly, or the course itself when no lesson matches
+export interface WeakTopic {
+  saved: SavedCourse;
+  lessonIndex: number | null;
+  title: string;
+  percentage: number; // Average credit of the matching answers
+  answered: number;
+}
+
+// Local calendar date, so a streak follows the learner's own days
+export const localDay = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const completionThreshold = (lessonContent: string): number => {
+  const words = lessonContent.split(/\s+/).filter(Boolean).length;
+  const readingMs = (words / WORDS_PER_MINUTE) * 60 * 1000 * COMPLETION_SHARE;
+  return Math.min(MAX_COMPLETION_MS, Math.max(MIN_COMPLETION_MS, readingMs));
+};
+
+export const openLesson = (previous: LessonProgress | undefined, at: number): LessonProgress =>
+  previous
+    ? { ...previous, openCount: previous.openCount + 1, lastOpenedAt: at }
+    : { openCount: 1, firstOpenedAt: at, lastOpenedAt: at, readingMs: 0 };
+
+// Adds one stretch of reading and marks the lesson completed once it has been read long enough
+export const addReadingTime = (
+  previous: LessonProgress | undefined,
+  lessonContent: string,
+  readingMs: number,
+  at: number
+): LessonProgress => {
+  const progress = previous ?? openLesson(undefined, at);
+  const total = progress.readingMs + Math.min(Math.max(readingMs, 0), MAX_SESSION_MS);
+  const completed = progress.completedAt ?? (total >= completionThreshold(lessonContent) ? at : undefined);
+  return completed === undefined ? { ...progress, readingMs: total } : { ...progress, readingMs: total, completedAt: completed };
+};
+
+export const summarizeCourse = (saved: SavedCourse): CourseProgressSummary => {
+  const lessonProgress = Object.entries(saved.lessonProgress ?? {})
+    .filter(([index]) => Number(index) < saved.course.lessons.length)
+    .map(([, progress]) => progress);
+  const attempts = saved.attempts ?? [];
+  const lessonsCompleted = lessonProgress.filter(progress => progress.completedAt !== undefined).length;
+  const lessonCount = saved.course.lessons.length;
+  const passed = attempts.some(attempt => attempt.passed);
+  return {
+    saved,
+    lessonsCompleted,
+    lessonCount,
+    readingMs: lessonProgress.reduce((sum, progress) => sum + progress.readingMs, 0),
+    passed,
+    bestPercentage: attempts.length > 0 ? Math.max(...attempts.map(attempt => attempt.percentage)) : null,
+    completion: Math.round(((lessonsCompleted + (passed ? 1 : 0)) / (lessonCount + 1)) * 100),
+  };
+};
+
+// Whether the library holds any recorded study at all
+export const hasProgress = (courses: SavedCourse[]): boolean =>
+  courses.some(saved => (saved.attempts ?? []).length > 0 || Object.keys(saved.lessonProgress ?? {}).length > 0);
+
+const dayNumber = (day: string): number => {
+  const [year, month, date] = day.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, date) / DAY_MS);
+};
+
+// Days with a lesson read or a Knowledge Check finished, across the whole library
+export const studyStreak = (courses: SavedCourse[], now = Date.now()): StudyStreak => {
+  const days = new Set<string>();
+  courses.forEach(saved => {
+    (saved.studyDays ?? []).forEach(day => days.add(day));
+    (saved.attempts ?? []).forEach(attempt => days.add(localDay(attempt.completedAt)));
+  });
+  const numbers = [...days].map(dayNumber).sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  numbers.forEach((day, index) => {
+    run = index > 0 && day === numbers[index - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const today = dayNumber(localDay(now));
+  const last = numbers[numbers.length - 1];
+  const current = last === today || last === today - 1 ? run : 0;
+  return { current, longest };
+};
+
+const significantWords = (text: string): Set<string> => new Set(text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []);
+
+// The lesson sharing the most words with a question and its answer; quiz items carry no lesson reference
+const lessonMatcher = (course: Course) => {
+  const lessonWords = course.lessons.map(lesson => significantWords(`${lesson.title} ${lesson.content}`));
+  return (text: string): number | null => {
+    let best: number | null = null;
+    let bestScore = 0;
+    const words = [...significantWords(text)];
+    lessonWords.forEach((vocabulary, index) => {
+      const score = words.filter(word => vocabulary.has(word)).length;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    return best;
+  };
+};
+
+export const weakestTopics = (courses: SavedCourse[]): WeakTopic[] => {
+  const topics: WeakTopic[] = [];
+  courses.forEach(saved => {
+    const attempts = (saved.attempts ?? []).slice(-RECENT_ATTEMPTS);
+    if (attempts.length === 0) return;
+    const matchLesson = lessonMatcher(saved.course);
+    const totals = new Map<number | null, { credit: number; answered: number }>();
+    attempts.forEach(attempt => attempt.review.forEach(entry => {
+      const lessonIndex = matchLesson(`${entry.question} ${entry.correctAnswer}`);
+      const total = totals.get(lessonIndex) ?? { credit: 0, answered: 0 };
+      totals.set(lessonIndex, { credit: total.credit + entry.credit, answered: total.answered + 1 });
+    }));
+    totals.forEach(({ credit, answered }, lessonIndex) => {
+      const percentage = Math.round((credit / answered) * 100);
+      if (percentage >= 100) return;
+      topics.push({
+        saved,
+        lessonIndex,
+        title: lessonIndex === null ? saved.name : saved.course.lessons[lessonIndex].title,
+        percentage,
+        answered,
+      });
+    });
+  });
+  return topics
+    .sort((a, b) => a.percentage - b.percentage || b.answered - a.answered)
+    .slice(0, WEAK_TOPIC_LIMIT);
+};
+
+const isoDate = (time: number | undefined) => (time === undefined ? null : new Date(time).toISOString());
+
+// One learner's courses, as exported
+const progressReport = (courses: SavedCourse[], now: number) => ({
+  streak: studyStreak(courses, now),
+  courses: courses.map(saved => {
+    const summary = summarizeCourse(saved);
+    return {
+      id: saved.id,
+      name: saved.name,
+      topic: saved.topic,
+      language: saved.language,
+      createdAt: isoDate(saved.createdAt),
+      completion: summary.completion,
+      lessonsCompleted: summary.lessonsCompleted,
+      readingMinutes: Math.round(summary.readingMs / 60000),
+      studyDays: saved.studyDays ?? [],
+      lessons: saved.course.lessons.map((lesson, index) => {
+        const progress = saved.lessonProgress?.[index];
+        return {
+          title: lesson.title,
+          openCount: progress?.openCount ?? 0,
+          firstOpenedAt: isoDate(progress?.firstOpenedAt),
+          lastOpenedAt: isoDate(progress?.lastOpenedAt),
+          readingSeconds: Math.round((progress?.readingMs ?? 0) / 1000),
+          completedAt: isoDate(progress?.completedAt),
+        };
+      }),
+      attempts: (saved.attempts ?? []).map(attempt => ({ ...attempt, completedAt: isoDate(attempt.completedAt) })),
+    };
+  }),
+  weakestTopics: weakestTopics(courses).map(topic => ({
+    courseId: topic.saved.id,
+    lesson: topic.title,
+    percentage: topic.percentage,
+    answered: topic.answered,
+  })),
+});
+
+// Everything the dashboard shows, as a JSON download
+export const buildProgressExport = (courses: SavedCourse[], now = Date.now()): string =>
+  JSON.stringify({ format: 'geeddi-academy-progress', version: 1, exportedAt: isoDate(now), ...progressReport(courses, now) }, null, 2);
+
+// A learner's display name and courses, for the supervisor's export of every profile
+export interface LearnerResults {
+  profile: LearnerProfile;
+  name: string;
+  courses: SavedCourse[];
+}
+
+export const buildResultsExport = (learners: LearnerResults[], now = Date.now()): string =>
+  JSON.stringify(
+    {
+      format: 'geeddi-academy-results',
+      version: 1,
+      exportedAt: isoDate(now),
+      learners: learners.map(({ profile, name, courses }) => ({
+        profileId: profile.id,
+        name,
+        createdAt: isoDate(profile.createdAt),
+        ...progressReport(courses, now),
+      })),
+    },
+    null,
+    2
+  );
+
+const RESULTS_CSV_HEADER = [
+  'learner',
+  'course',
+  'language',
+  'completion',
+  'lessons_completed',
+  'lessons',
+  'reading_minutes',
+  'attempts',
+  'best_score',
+  'passed',
+  'last_activity',
+];
+
+// One row per learner and course, for a spreadsheet
+export const buildResultsCsv = (learners: LearnerResults[]): string => {
+  const rows = learners.flatMap(({ name, courses }) =>
+    courses.map(saved => {
+      const summary = summarizeCourse(saved);
+      const activity = [
+        ...Object.values(saved.lessonProgress ?? {}).map(progress => progress.lastOpenedAt),
+        ...(saved.attempts ?? []).map(attempt => attempt.completedAt),
+      ];
+      return [
+        name,
+        saved.name,
+        saved.language,
+        String(summary.completion),
+        String(summary.lessonsCompleted),
+        String(summary.lessonCount),
+        String(Math.round(summary.readingMs / 60000)),
+        String((saved.attempts ?? []).length),
+        summary.bestPercentage === null ? '' : String(summary.bestPercentage),
+        summary.passed ? 'yes' : 'no',
+        activity.length > 0 ? isoDate(Math.max(...activity)) ?? '' : '',
+      ];
+    })
+  );
+  return [RESULTS_CSV_HEADER, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+};
@@ -0,0 +1,415 @@
+// QR code encoder (ISO/IEC 18004) for the app's links and verification codes.
+// Text is encoded in byte mode as UTF-8, in the smallest version (1 to 40) that
+// holds it at the requested error correction level. The mask with the lowest
+// penalty is chosen, as the standard prescribes.
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H'; // Recovers about 7, 15, 25 and 30% of the symbol
+
+export interface QrCode {
+  version: number;
+  size: number; // Modules per side, without the quiet zone
+  errorCorrection: QrErrorCorrection;
+  modules: boolean[][]; // [row][column], true for dark
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Format information bits of each level
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// Error correction blocks, indexed by version (index 0 unused)
+const ECC_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// ---- Capacity ----
+
+// Modules left for data and error correction once the function patterns are placed
+const rawDataModules = (version: number): number => {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+};
+
+const dataCodewords = (version: number, level: QrErrorCorrection): number =>
+  Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[level][version] * ECC_BLOCKS[level][version];
+
+const characterCountBits = (version: number) => (version <= 9 ? 8 : 16);
+
+// ---- Reed-Solomon over GF(2^8) with the polynomial x^8 + x^4 + x^3 + x^2 + 1 ----
+
+const gfMultiply = (x: number, y: number): number => {
+  let product = 0;
+  for (let bit = 7; bit >= 0; bit--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> bit) & 1) * x;
+  }
+  return product;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const remainder = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => { remainder[i] ^= gfMultiply(coefficient, factor); });
+  }
+  return remainder;
+};
+
+// Splits the data into blocks, appends each block's error correction and interleaves them
+const addErrorCorrection = (data: number[], version: number, level: QrErrorCorrection): number[] => {
+  const blockCount = ECC_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const dataLength = shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1);
+    const blockData = data.slice(offset, offset + dataLength);
+    offset += dataLength;
+    const ecc = reedSolomonRemainder(blockData, divisor);
+    // Short blocks get a placeholder so every block has the same length while interleaving
+    if (i < shortBlockCount) blockData.push(-1);
+    blocks.push([...blockData, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach(block => { if (block[i] !== -1) result.push(block[i]); });
+  }
+  return result;
+};
+
+// ---- Data ----
+
+const appendBits = (bits: number[], value: number, length: number) => {
+  for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+};
+
+const encodeData = (bytes: Uint8Array, version: number, level: QrErrorCorrection): number[] => {
+  const capacityBits = dataCodewords(version, level) * 8;
+  const bits: number[] = [];
+  appendBits(bits, 0b0100, 4); // Byte mode
+  appendBits(bits, bytes.length, characterCountBits(version));
+  bytes.forEach(byte => appendBits(bits, byte, 8));
+  appendBits(bits, 0, Math.min(4, capacityBits - bits.length)); // Terminator
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) appendBits(bits, pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+// ---- Matrix ----
+
+const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) positions.splice(1, 0, position);
+  return positions;
+};
+
+// Remainder of a BCH code, used for the format and version information
+const bchRemainder = (value: number, bits: number, generator: number, generatorBits: number): number => {
+  let remainder = value << (generatorBits - 1);
+  for (let bit = bits + generatorBits - 2; bit >= generatorBits - 1; bit--) {
+    if ((remainder >>> bit) & 1) remainder ^= generator << (bit - generatorBits + 1);
+  }
+  return remainder;
+};
+
+const MASKS: Array<(row: number, column: number) => boolean> = [
+  (r, c) => (r + c) % 2 === 0,
+  r => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+class QrMatrix {
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, readonly size = version * 4 + 17) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  }
+
+  setFunction(row: number, column: number, dark: boolean) {
+    this.modules[row][column] = dark;
+    this.isFunction[row][column] = true;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(3, this.size - 4);
+    this.drawFinder(this.size - 4, 3);
+
+    const positions = alignmentPositions(this.version);
+    positions.forEach((row, i) => positions.forEach((column, j) => {
+      // The three corners taken by finder patterns have none
+      const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === positions.length - 1) || (i === positions.length - 1 && j === 0);
+      if (!overlapsFinder) this.drawAlignment(row, column);
+    }));
+
+    this.drawFormat(0); // Reserves the area; redrawn once the mask is known
+    this.drawVersion();
+  }
+
+  private drawFinder(centerRow: number, centerColumn: number) {
+    for (let dr = -4; dr <= 4; dr++) {
+      for (let dc = -4; dc <= 4; dc++) {
+        const row = centerRow + dr;
+        const column = centerColumn + dc;
+        const distance = Math.max(Math.abs(dr), Math.abs(dc));
+        if (row >= 0 && row < this.size && column >= 0 && column < this.size) {
+          this.setFunction(row, column, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(centerRow: number, centerColumn: number) {
+    for (let dr = -2; dr <= 2; dr++) {
+      for (let dc = -2; dc <= 2; dc++) {
+        this.setFunction(centerRow + dr, centerColumn + dc, Math.max(Math.abs(dr), Math.abs(dc)) !== 1);
+      }
+    }
+  }
+
+  drawFormat(formatData: number) {
+    const bits = ((formatData << 10) | bchRemainder(formatData, 5, 0x537, 11)) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    // Around the top left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(i, 8, bit(i));
+    this.setFunction(7, 8, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(8, 7, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(8, 14 - i, bit(i));
+
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(8, this.size - 1 - i, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(this.size - 15 + i, 8, bit(i));
+    this.setFunction(this.size - 8, 8, true); // Dark module
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    const bits = (this.version << 12) | bchRemainder(this.version, 6, 0x1f25, 13);
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  // Fills the codewords in two-column strips, zigzagging up and down from the bottom right
+  drawCodewords(codewords: number[]) {
+    let index = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // The vertical timing pattern takes a whole column
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const column = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const row = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[row][column] && index < codewords.length * 8) {
+            this.modules[row][column] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+            index++;
+          }
+        }
+      }
+    }
+  }
+
+  // Masking twice undoes it, which is how the candidates are tried in turn
+  applyMask(mask: number) {
+    for (let row = 0; row < this.size; row++) {
+      for (let column = 0; column < this.size; column++) {
+        if (!this.isFunction[row][column] && MASKS[mask](row, column)) {
+          this.modules[row][column] = !this.modules[row][column];
+        }
+      }
+    }
+  }
+
+  // Penalty score of the current symbol (ISO/IEC 18004, 7.8.3)
+  penalty(): number {
+    const { size, modules } = this;
+    let penalty = 0;
+
+    const lines = [
+      ...modules,
+      ...modules.map((_, column) => modules.map(row => row[column])),
+    ];
+    for (const line of lines) {
+      // Rule 1: runs of five or more modules of one colour
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) penalty += run - 2;
+          run = 1;
+        }
+      }
+      // Rule 3: finder-like 1:1:3:1:1 patterns with four light modules on either side
+      const text = `0000${line.map(dark => (dark ? '1' : '0')).join('')}0000`;
+      for (let i = 0; i + 11 <= text.length; i++) {
+        const window = text.slice(i, i + 11);
+        if (window === '10111010000' || window === '00001011101') penalty += 40;
+      }
+    }
+
+    // Rule 2: 2×2 blocks of one colour
+    for (let row = 0; row < size - 1; row++) {
+      for (let column = 0; column < size - 1; column++) {
+        const dark = modules[row][column];
+        if (dark === modules[row][column + 1] && dark === modules[row + 1][column] && dark === modules[row + 1][column + 1]) {
+          penalty += 3;
+        }
+      }
+    }
+
+    // Rule 4: how far the share of dark modules is from half
+    const darkCount = modules.reduce((total, row) => total + row.filter(Boolean).length, 0);
+    const total = size * size;
+    penalty += Math.floor(Math.abs(darkCount * 20 - total * 10) / total) * 10;
+    return penalty;
+  }
+}
+
+// ---- Encoding ----
+
+// Smallest version holding the text at the level, or null when it does not fit in version 40
+const chooseVersion = (byteLength: number, level: QrErrorCorrection): number | null => {
+  for (let version = MIN_VERSION; version <= MAX_VERSION; version++) {
+    const usedBits = 4 + characterCountBits(version) + byteLength * 8;
+    if (byteLength < 1 << characterCountBits(version) && usedBits <= dataCodewords(version, level) * 8) return version;
+  }
+  return null;
+};
+
+// The number of UTF-8 bytes a QR code holds at most at each level
+export const QR_MAX_BYTES: Record<QrErrorCorrection, number> = { L: 2953, M: 2331, Q: 1663, H: 1273 };
+
+// Throws when the text is too long for a version 40 symbol at that level
+export const encodeQrCode = (text: string, errorCorrection: QrErrorCorrection = 'M'): QrCode => {
+  const bytes = new TextEncoder().encode(text);
+  const version = chooseVersion(bytes.length, errorCorrection);
+  if (version === null) {
+    throw new Error(`Text of ${bytes.length} bytes does not fit in a QR code at level ${errorCorrection} (at most ${QR_MAX_BYTES[errorCorrection]}).`);
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(addErrorCorrection(encodeData(bytes, version, errorCorrection), version, errorCorrection));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormat((FORMAT_BITS[errorCorrection] << 3) | mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormat((FORMAT_BITS[errorCorrection] << 3) | bestMask);
+
+  return { version, size: matrix.size, errorCorrection, modules: matrix.modules };
+};
+
+// ---- SVG ----
+
+const QUIET_ZONE = 4; // Light border the standard requires around the symbol, in modules
+
+// SVG path drawing the dark modules, offset by the quiet zone; one subpath per horizontal run
+export const qrPathData = (code: QrCode): string => {
+  const parts: string[] = [];
+  code.modules.forEach((row, y) => {
+    for (let x = 0; x < code.size; x++) {
+      if (!row[x]) continue;
+      const start = x;
+      while (x + 1 < code.size && row[x + 1]) x++;
+      parts.push(`M${start + QUIET_ZONE},${y + QUIET_ZONE}h${x - start + 1}v1h${start - x - 1}z`);
+    }
+  });
+  return parts.join('');
+};
+
+// Side of the SVG viewBox, quiet zone included
+export const qrViewBoxSize = (code: QrCode): number => code.size + QUIET_ZONE * 2;
+
+export interface QrSvgOptions {
+  dark?: string;
+  light?: string;
+  title?: string;
+  // Placement inside another SVG, in its user units; without them the SVG scales to its container
+  x?: number;
+  y?: number;
+  size?: number;
+}
+
+// An SVG element of the code, for files and pages generated outside React
+export const qrCodeSvg = (code: QrCode, options: QrSvgOptions = {}): string => {
+  const { dark = '#000000', light = '#ffffff', title, x, y, size } = options;
+  const side = qrViewBoxSize(code);
+  const placement = size === undefined ? '' : ` x="${x ?? 0}" y="${y ?? 0}" width="${size}" height="${size}"`;
+  const escapedTitle = title?.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  return `<svg xmlns="http://www.w3.org/2000/svg"${placement} viewBox="0 0 ${side} ${side}" shape-rendering="crispEdges">`
+    + (escapedTitle ? `<title>${escapedTitle}</title>` : '')
+    + `<rect width="${side}" height="${side}" fill="${light}"/><path fill="${dark}" d="${qrPathData(code)}"/></svg>`;
+};
@@ -0,0 +1,344 @@
+import { Course, QuizItem } from './interfaces';
+import { LocaleCode, LOCALES, Messages } from './i18n';
+import { escapeHtml, inlineMarkdownToHtml, markdownToHtml, markdownToPlainText } from './markdown';
+import { glossaryHtml, lessonBodyHtml } from './courseHtml';
+import { identifierFor } from './scormExport';
+import { createZip } from './zip';
+
+// QTI 2.1 package export. The Knowledge Check becomes one IMS QTI 2.1 item per
+// question plus an assessment test that lists them; the lessons travel alongside
+// as web content. Each item scores 0 to 1 the way quizScoring.ts grades it in the
+// app, as far as QTI response processing can express it. This is an IMS content
+// package with a QTI 2.1 manifest, not a Common Cartridge: Common Cartridge only
+// allows QTI 1.2 assessments.
+
+export interface QtiPackageOptions {
+  language: LocaleCode; // Language the course is written in
+  labels: Messages;
+}
+
+const QTI_NAMESPACES = `xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`;
+
+const PACKAGE_NAMESPACES = `xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd http://ltsc.ieee.org/xsd/LOM http://www.imsglobal.org/xsd/imsmd_loose_v1p3p2.xsd"`;
+
+const RESPONSE_TEMPLATES = {
+  matchCorrect: 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct',
+  mapResponse: 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response',
+};
+
+// Item bodies only allow a subset of XHTML
+const inlineHtml = (text: string) => inlineMarkdownToHtml(text, { restricted: true });
+
+const choiceId = (index: number) => `choice-${index + 1}`;
+const questionId = (index: number) => `question-${index + 1}`;
+
+// Credit shares are written with a few decimals, e.g. 1/3 as 0.3333
+const share = (count: number) => Number((1 / count).toFixed(4));
+
+const simpleChoices = (options: string[], element = 'simpleChoice', extra = '') =>
+  options.map((option, index) => `      <${element} identifier="${choiceId(index)}"${extra}>${inlineHtml(option)}</${element}>`).join('\n');
+
+const SCORE_DECLARATIONS = `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">
+    <defaultValue><value>1</value></defaultValue>
+  </outcomeDeclaration>`;
+
+// The declarations, body and response processing of one question
+interface ItemParts {
+  response: string;
+  body: string;
+  processing: string;
+}
+
+// QTI needs at least one value in a correct response, so an empty one is left out
+const correctResponse = (values: string[]) => values.length > 0
+  ? `
+    <correctResponse>
+${values.map(value => `      <value>${escapeHtml(value)}</value>`).join('\n')}
+    </correctResponse>`
+  : '';
+
+const mapEntry = (key: string, value: number, caseSensitive = true) =>
+  `      <mapEntry mapKey="${escapeHtml(key)}" mappedValue="${value}" caseSensitive="${caseSensitive}"/>`;
+
+const templateProcessing = (template: string) => `  <responseProcessing template="${template}"/>`;
+
+// Shares are rounded, so a fully correct response is given exactly 1 rather than their sum
+const fullCreditProcessing = (partialCredit: string) => `  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        <isNull><variable identifier="RESPONSE"/></isNull>
+        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">0</baseValue></setOutcomeValue>
+      </responseIf>
+      <responseElseIf>
+        <match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>
+        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>
+      </responseElseIf>
+      <responseElse>
+${partialCredit}
+      </responseElse>
+    </responseCondition>
+  </responseProcessing>`;
+
+const MAPPED_CREDIT = `        <setOutcomeValue identifier="SCORE"><mapResponse identifier="RESPONSE"/></setOutcomeValue>`;
+
+// Maps each question type to its QTI interaction. The switch is exhaustive, so a new
+// question type does not compile until it has a mapping here.
+const itemParts = (item: QuizItem): ItemParts => {
+  const prompt = `<prompt>${inlineHtml(item.question)}</prompt>`;
+
+  switch (item.type) {
+    case 'multiple-choice':
+    case 'true-false': {
+      const correct = item.options.indexOf(item.correctAnswer);
+      return {
+        response: `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>${choiceId(Math.max(0, correct))}</value></correctResponse>
+  </responseDeclaration>`,
+        body: `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+      ${prompt}
+${simpleChoices(item.options)}
+    </choiceInteraction>`,
+        processing: templateProcessing(RESPONSE_TEMPLATES.matchCorrect),
+      };
+    }
+    case 'multi-select': {
+      // Correct picks add and wrong picks subtract a share of the credit, never below zero
+      const correct = item.correctAnswers ?? [];
+      const ids = item.options.map((_, index) => choiceId(index));
+      const weight = share(Math.max(1, correct.length));
+      return {
+        response: `  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="identifier">${correctResponse(ids.filter((_, index) => correct.includes(item.options[index])))}
+    <mapping lowerBound="0" upperBound="1" defaultValue="0">
+${ids.map((id, index) => mapEntry(id, correct.includes(item.options[index]) ? weight : -weight)).join('\n')}
+    </mapping>
+  </responseDeclaration>`,
+        body: `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="0">
+      ${prompt}
+${simpleChoices(item.options)}
+    </choiceInteraction>`,
+        processing: fullCreditProcessing(MAPPED_CREDIT),
+      };
+    }
+    case 'fill-in-the-blank': {
+      // The text entry sits where the question's "____" blank is
+      const answers = [item.correctAnswer, ...(item.acceptedAnswers ?? [])]
+        .map(answer => answer.trim())
+        .filter((answer, index, all) => answer !== '' && all.findIndex(other => other.toLowerCase() === answer.toLowerCase()) === index);
+      const [before, ...rest] = item.question.split(/_{3,}/);
+      const entry = `<textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${Math.max(10, ...answers.map(answer => answer.length))}"/>`;
+      return {
+        response: `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">${correctResponse(answers.slice(0, 1))}
+    <mapping defaultValue="0">
+${answers.map(answer => mapEntry(answer, 1, false)).join('\n')}
+    </mapping>
+  </responseDeclaration>`,
+        body: rest.length > 0
+          ? `    <p>${inlineHtml(before.trimEnd())} ${entry} ${inlineHtml(rest.join('____').trimStart())}</p>`
+          : `    <p>${inlineHtml(item.question)}</p>\n    <p>${entry}</p>`,
+        processing: templateProcessing(RESPONSE_TEMPLATES.mapResponse),
+      };
+    }
+    case 'ordering': {
+      // Each step in its correct position earns an equal share, as in the app
+      const order = (item.correctOrder ?? []).map(step => choiceId(Math.max(0, item.options.indexOf(step))));
+      const weight = share(Math.max(1, order.length));
+      return {
+        response: `  <responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier">${correctResponse(order)}
+  </responseDeclaration>`,
+        body: `    <orderInteraction responseIdentifier="RESPONSE" shuffle="false">
+      ${prompt}
+${simpleChoices(item.options)}
+    </orderInteraction>`,
+        processing: fullCreditProcessing(order.map((id, position) => `        <responseCondition>
+          <responseIf>
+            <match>
+              <index n="${position + 1}"><variable identifier="RESPONSE"/></index>
+              <baseValue baseType="identifier">${id}</baseValue>
+            </match>
+            <setOutcomeValue identifier="SCORE">
+              <sum><variable identifier="SCORE"/><baseValue baseType="float">${weight}</baseValue></sum>
+            </setOutcomeValue>
+          </responseIf>
+        </responseCondition>`).join('\n')),
+      };
+    }
+    case 'matching': {
+      // Left items pair with the scrambled right-hand options; each correct pair earns a share
+      const pairs = item.matchingPairs ?? [];
+      const keys = pairs.map((pair, index) => `left-${index + 1} ${choiceId(Math.max(0, item.options.indexOf(pair.right)))}`);
+      const weight = share(Math.max(1, pairs.length));
+      return {
+        response: `  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">${correctResponse(keys)}
+    <mapping lowerBound="0" upperBound="1" defaultValue="0">
+${keys.map(key => mapEntry(key, weight)).join('\n')}
+    </mapping>
+  </responseDeclaration>`,
+        body: `    <matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${pairs.length}">
+      ${prompt}
+      <simpleMatchSet>
+${pairs.map((pair, index) => `        <simpleAssociableChoice identifier="left-${index + 1}" matchMax="1">${inlineHtml(pair.left)}</simpleAssociableChoice>`).join('\n')}
+      </simpleMatchSet>
+      <simpleMatchSet>
+${simpleChoices(item.options, 'simpleAssociableChoice', ' matchMax="1"').replace(/^ {6}/gm, '        ')}
+      </simpleMatchSet>
+    </matchInteraction>`,
+        processing: fullCreditProcessing(MAPPED_CREDIT),
+      };
+    }
+    case 'short-answer':
+      // Scored by a person: the model answer and rubric are shown to scorers only
+      return {
+        response: `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">${correctResponse([item.correctAnswer.trim()].filter(Boolean))}
+  </responseDeclaration>`,
+        body: `    <rubricBlock view="scorer">
+      <p>${inlineHtml(item.correctAnswer)}</p>${item.rubric?.length ? `
+      <ul>
+${item.rubric.map(point => `        <li>${inlineHtml(point)}</li>`).join('\n')}
+      </ul>` : ''}
+    </rubricBlock>
+    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="5">
+      ${prompt}
+    </extendedTextInteraction>`,
+        processing: '',
+      };
+    default: {
+      const unsupported: never = item.type;
+      throw new Error(`No QTI mapping for question type ${unsupported}`);
+    }
+  }
+};
+
+const itemTitle = (item: QuizItem, index: number): string => {
+  const text = markdownToPlainText(item.question).replace(/\s+/g, ' ');
+  return `${index + 1}. ${text.length > 80 ? `${text.slice(0, 79)}…` : text}`;
+};
+
+export const buildQtiItem = (item: QuizItem, index: number, language: LocaleCode): string => {
+  const parts = itemParts(item);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem ${QTI_NAMESPACES}
+  identifier="${questionId(index)}" title="${escapeHtml(itemTitle(item, index))}" adaptive="false" timeDependent="false" xml:lang="${language}">
+${parts.response}
+${SCORE_DECLARATIONS}
+  <itemBody>
+${parts.body}
+  </itemBody>
+${parts.processing ? `${parts.processing}\n` : ''}</assessmentItem>
+`;
+};
+
+// The Knowledge Check as a whole; the test score is the sum of the item scores
+const buildAssessmentTest = (course: Course, options: QtiPackageOptions): string => `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest ${QTI_NAMESPACES}
+  identifier="knowledge-check" title="${escapeHtml(options.labels.knowledgeCheck)}">
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>
+  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">
+    <defaultValue><value>${course.quiz.length}</value></defaultValue>
+  </outcomeDeclaration>
+  <testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">
+    <assessmentSection identifier="section-1" title="${escapeHtml(options.labels.knowledgeCheck)}" visible="true">
+${course.quiz.map((_, index) => `      <assessmentItemRef identifier="${questionId(index)}" href="${questionId(index)}.xml"/>`).join('\n')}
+    </assessmentSection>
+  </testPart>
+  <outcomeProcessing>
+    <setOutcomeValue identifier="SCORE">
+      <sum><testVariables variableIdentifier="SCORE"/></sum>
+    </setOutcomeValue>
+  </outcomeProcessing>
+</assessmentTest>
+`;
+
+const buildPage = (title: string, body: string, options: QtiPackageOptions): string => `<!DOCTYPE html>
+<html lang="${options.language}" dir="${LOCALES[options.language].direction}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`;
+
+const lessonPage = (course: Course, index: number, options: QtiPackageOptions): string =>
+  buildPage(course.lessons[index].title, lessonBodyHtml(course, index, options.labels), options);
+
+// Course summary and glossary, after the lessons
+const summaryPage = (course: Course, options: QtiPackageOptions): string => {
+  const glossary = course.glossary?.length ? `\n<h2>${escapeHtml(options.labels.glossary)}</h2>\n${glossaryHtml(course)}` : '';
+  return buildPage(options.labels.courseSummary, `${markdownToHtml(course.summary)}${glossary}`, options);
+};
+
+interface Resource {
+  identifier: string;
+  type: string;
+  href: string;
+  dependencies?: string[];
+}
+
+// QTI packages leave the organizations empty, as in the QTI 2.1 packaging examples; tools
+// build their own outline from the resources
+const buildManifest = (course: Course, resources: Resource[], options: QtiPackageOptions): string => `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifierFor(course.title)}"
+  ${PACKAGE_NAMESPACES}>
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+    <imsmd:lom>
+      <imsmd:general>
+        <imsmd:title>
+          <imsmd:string language="${options.language}">${escapeHtml(course.title)}</imsmd:string>
+        </imsmd:title>
+        <imsmd:language>${options.language}</imsmd:language>
+      </imsmd:general>
+    </imsmd:lom>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources.map(resource => `    <resource identifier="${resource.identifier}" type="${resource.type}" href="${resource.href}">
+      <file href="${resource.href}"/>${(resource.dependencies ?? []).map(dependency => `
+      <dependency identifierref="${dependency}"/>`).join('')}
+    </resource>`).join('\n')}
+  </resources>
+</manifest>
+`;
+
+export const buildQtiPackage = (course: Course, options: QtiPackageOptions): Uint8Array => {
+  const files: { path: string; content: string }[] = [];
+  const resources: Resource[] = [];
+  const add = (resource: Resource, content: string) => {
+    files.push({ path: resource.href, content });
+    resources.push(resource);
+  };
+
+  course.lessons.forEach((_, index) =>
+    add({ identifier: `lesson-${index + 1}`, type: 'webcontent', href: `lessons/lesson-${index + 1}.html` }, lessonPage(course, index, options))
+  );
+  add({ identifier: 'summary', type: 'webcontent', href: 'lessons/summary.html' }, summaryPage(course, options));
+
+  if (course.quiz.length > 0) {
+    add(
+      {
+        identifier: 'knowledge-check',
+        type: 'imsqti_test_xmlv2p1',
+        href: 'quiz/knowledge-check.xml',
+        dependencies: course.quiz.map((_, index) => questionId(index)),
+      },
+      buildAssessmentTest(course, options)
+    );
+    course.quiz.forEach((item, index) =>
+      add({ identifier: questionId(index), type: 'imsqti_item_xmlv2p1', href: `quiz/${questionId(index)}.xml` }, buildQtiItem(item, index, options.language))
+    );
+  }
+
+  return createZip([{ path: 'imsmanifest.xml', content: buildManifest(course, resources, options) }, ...files]);
+};
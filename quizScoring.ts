@@ -0,0 +1,141 @@
+import { AnswerGrade, QuizAttempt, QuizItem, QuizResponse } from './interfaces';
+
+// Scoring, pass/fail and retake shuffling for the Knowledge Check.
+
+const DEFAULT_PASS_THRESHOLD = 70;
+
+// Minimum percentage needed to pass, configurable through QUIZ_PASS_THRESHOLD (see vite.config.ts).
+export const PASS_THRESHOLD = (() => {
+  const configured = Number(process.env.QUIZ_PASS_THRESHOLD);
+  return Number.isFinite(configured) && configured > 0 && configured <= 100 ? configured : DEFAULT_PASS_THRESHOLD;
+})();
+
+// Case, whitespace and trailing punctuation never decide whether a typed answer is right.
+export const normalizeAnswer = (value: string): string =>
+  value.trim().replace(/\s+/g, ' ').replace(/[.!?]+$/, '').toLowerCase();
+
+const asList = (response: QuizResponse): string[] => (Array.isArray(response) ? response : [response]);
+
+// Returns the credit (0 to 1) a response earns. Each question type has its own rule:
+// - multiple-choice / true-false: the exact correct option, all or nothing
+// - multi-select: correct picks minus wrong picks, over the number of correct options
+// - fill-in-the-blank: any accepted variant, ignoring case and spacing
+// - ordering: the share of items placed in their correct position
+// - matching: the share of pairs matched correctly
+// - short-answer: the model's rubric score, so the grade must be passed in
+export const gradeResponse = (item: QuizItem, response: QuizResponse | null, grade?: AnswerGrade | null): number => {
+  if (response === null) return 0;
+
+  switch (item.type) {
+    case 'short-answer':
+      return grade ? grade.score / 100 : 0;
+    case 'multi-select': {
+      const correct = new Set(item.correctAnswers ?? []);
+      if (correct.size === 0) return 0;
+      const selected = new Set(asList(response));
+      let hits = 0;
+      let misses = 0;
+      selected.forEach(option => (correct.has(option) ? hits++ : misses++));
+      return Math.max(0, (hits - misses) / correct.size);
+    }
+    case 'fill-in-the-blank': {
+      const accepted = [item.correctAnswer, ...(item.acceptedAnswers ?? [])].map(normalizeAnswer);
+      return accepted.includes(normalizeAnswer(asList(response)[0] ?? '')) ? 1 : 0;
+    }
+    case 'ordering': {
+      const expected = item.correctOrder ?? [];
+      if (expected.length === 0) return 0;
+      const submitted = asList(response);
+      return expected.filter((step, index) => submitted[index] === step).length / expected.length;
+    }
+    case 'matching': {
+      const pairs = item.matchingPairs ?? [];
+      if (pairs.length === 0) return 0;
+      const submitted = asList(response);
+      return pairs.filter((pair, index) => submitted[index] === pair.right).length / pairs.length;
+    }
+    default:
+      return asList(response)[0] === item.correctAnswer ? 1 : 0;
+  }
+};
+
+export const isCorrectAnswer = (item: QuizItem, response: QuizResponse | null, grade?: AnswerGrade | null): boolean =>
+  gradeResponse(item, response, grade) === 1;
+
+// Readable form of a response for the results review, downloads and explanation prompts.
+export const formatResponse = (item: QuizItem, response: QuizResponse | null): string | null => {
+  if (response === null) return null;
+  const list = asList(response);
+  switch (item.type) {
+    case 'multi-select':
+      return list.join('; ');
+    case 'ordering':
+      return list.join(' → ');
+    case 'matching':
+      return (item.matchingPairs ?? []).map((pair, index) => `${pair.left} → ${list[index] ?? '—'}`).join('; ');
+    default:
+      return list[0] ?? '';
+  }
+};
+
+const roundCredit = (value: number) => Math.round(value * 100) / 100;
+
+export const scoreQuiz = (
+  quiz: QuizItem[],
+  answers: Array<QuizResponse | null>,
+  grades: Array<AnswerGrade | null> = []
+): QuizAttempt => {
+  const review = quiz.map((item, index) => {
+    const response = answers[index] ?? null;
+    const credit = roundCredit(gradeResponse(item, response, grades[index]));
+    return {
+      question: item.question,
+      selectedAnswer: formatResponse(item, response),
+      correctAnswer: item.correctAnswer,
+      correct: credit === 1,
+      credit,
+    };
+  });
+  const score = roundCredit(review.reduce((total, entry) => total + entry.credit, 0));
+  const percentage = quiz.length > 0 ? Math.round((score / quiz.length) * 100) : 0;
+
+  return {
+    completedAt: Date.now(),
+    score,
+    total: quiz.length,
+    percentage,
+    passed: percentage >= PASS_THRESHOLD,
+    review,
+  };
+};
+
+// Fisher-Yates shuffle returning a new array.
+export const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Ordering steps must never start out in their answer order, so a shuffle that lands on
+// it is rotated by one; the steps are distinct, so any rotation differs.
+export const scrambleSteps = (options: string[], correctOrder: string[] | undefined): string[] => {
+  const steps = shuffle(options);
+  const solved = correctOrder !== undefined && steps.join('|') === correctOrder.join('|');
+  return solved && steps.length >= 2 ? [...steps.slice(1), steps[0]] : steps;
+};
+
+// Shuffles question order and option order for a retake. True/false options keep
+// their natural order; fill-in-the-blank and short-answer questions have no options.
+export const shuffleQuiz = (quiz: QuizItem[]): QuizItem[] =>
+  shuffle(quiz).map(item =>
+    item.type === 'true-false' || item.type === 'fill-in-the-blank' || item.type === 'short-answer'
+      ? item
+      : {
+          ...item,
+          options: item.type === 'ordering' ? scrambleSteps(item.options, item.correctOrder) : shuffle(item.options),
+          ...(item.matchingPairs ? { matchingPairs: shuffle(item.matchingPairs) } : {}),
+        }
+  );
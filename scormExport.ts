@@ -0,0 +1,234 @@
+import { Course, QuestionType } from './interfaces';
+import { LocaleCode, LOCALES, Messages, formatMessage } from './i18n';
+import { escapeHtml, inlineMarkdownToHtml, markdownToHtml, markdownToPlainText } from './markdown';
+import { glossaryHtml, lessonBodyHtml, outlineHtml } from './courseHtml';
+import { createZip } from './zip';
+import { PLAYER_SCRIPT, PLAYER_STYLES } from './scormPlayer';
+
+// SCORM package export. The zip holds an imsmanifest.xml, a static HTML page
+// with the lessons, and the player (scormPlayer.ts) that runs the quiz and
+// reports to the LMS. Everything is built in the browser from the Course.
+
+export type ScormVersion = '1.2' | '2004';
+
+// What the course page with the quiz player needs; also used by the standalone HTML export
+export interface CoursePageOptions {
+  language: LocaleCode; // Language the course is written in; also used for the player's labels
+  labels: Messages;
+  passThreshold: number; // Percentage
+}
+
+export interface ScormOptions extends CoursePageOptions {
+  version: ScormVersion;
+}
+
+// What the player needs to know about a question. Texts shown to the learner are
+// pre-rendered HTML; the raw values are compared when scoring.
+interface PlayerQuestion {
+  type: QuestionType;
+  html: string;
+  options: string[];
+  optionsHtml: string[];
+  optionsText: string[]; // For <select> options, which cannot hold markup
+  correctAnswer: string;
+  correctAnswerHtml: string;
+  correctAnswers?: string[];
+  acceptedAnswers?: string[];
+  correctOrder?: string[];
+  matchingPairs?: { left: string; right: string }[];
+  leftsHtml?: string[];
+}
+
+// Labels of the Messages schema the player shows
+const PLAYER_LABELS = [
+  'submitQuiz',
+  'retakeQuiz',
+  'yourScore',
+  'quizPassed',
+  'quizFailed',
+  'correctFeedback',
+  'incorrectFeedback',
+  'partiallyCorrectFeedback',
+  'correctAnswerLabel',
+  'modelAnswerLabel',
+  'selectAllThatApply',
+  'typeYourAnswer',
+  'arrangeInOrder',
+  'matchEachItem',
+  'chooseMatch',
+  'writeYourAnswer',
+  'shortAnswerNotScored',
+] as const;
+
+// Without a version the player runs on its own and looks for no LMS
+export const buildPlayerData = (course: Course, options: CoursePageOptions, version: ScormVersion | null) => ({
+  version,
+  passThreshold: options.passThreshold,
+  labels: Object.fromEntries(PLAYER_LABELS.map(key => [key, options.labels[key]])),
+  questions: course.quiz.map((item): PlayerQuestion => ({
+    type: item.type,
+    html: inlineMarkdownToHtml(item.question),
+    options: item.options,
+    optionsHtml: item.options.map(option => inlineMarkdownToHtml(option)),
+    optionsText: item.options.map(markdownToPlainText),
+    correctAnswer: item.correctAnswer,
+    correctAnswerHtml: inlineMarkdownToHtml(item.correctAnswer),
+    correctAnswers: item.correctAnswers,
+    acceptedAnswers: item.acceptedAnswers,
+    correctOrder: item.correctOrder,
+    matchingPairs: item.matchingPairs,
+    leftsHtml: item.matchingPairs?.map(pair => inlineMarkdownToHtml(pair.left)),
+  })),
+});
+
+// The course page. `head` and `scripts` link or inline the player's files.
+export const buildCoursePage = (
+  course: Course,
+  options: CoursePageOptions,
+  assets: { head: string; scripts: string }
+): string => {
+  const t = options.labels;
+  const locale = LOCALES[options.language];
+  const lessons = course.lessons.map((lesson, index) => `<article class="lesson" id="lesson-${index + 1}">
+<h3>${escapeHtml(lesson.title)}</h3>
+${lessonBodyHtml(course, index, t)}
+</article>`).join('\n');
+
+  const glossary = course.glossary?.length
+    ? `<section aria-labelledby="glossary-heading">
+<h2 id="glossary-heading">${escapeHtml(t.glossary)}</h2>
+${glossaryHtml(course)}
+</section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${options.language}" dir="${locale.direction}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(course.title)}</title>
+${assets.head}
+</head>
+<body>
+<main>
+<h1>${escapeHtml(course.title)}</h1>
+<section aria-labelledby="outline-heading">
+<h2 id="outline-heading">${escapeHtml(t.courseOutline)}</h2>
+${outlineHtml(course)}
+</section>
+<section aria-labelledby="lessons-heading">
+<h2 id="lessons-heading">${escapeHtml(t.mainLessons)}</h2>
+${lessons}
+</section>
+<section aria-labelledby="summary-heading">
+<h2 id="summary-heading">${escapeHtml(t.courseSummary)}</h2>
+${markdownToHtml(course.summary)}
+</section>
+${glossary}
+<section aria-labelledby="quiz-heading">
+<h2 id="quiz-heading">${escapeHtml(t.knowledgeCheck)}</h2>
+<p>${escapeHtml(formatMessage(t.passThresholdNote, { threshold: options.passThreshold }))}</p>
+<form id="quiz-form"></form>
+<div id="quiz-result" role="status"></div>
+</section>
+</main>
+${assets.scripts}
+</body>
+</html>
+`;
+};
+
+const PACKAGE_FILES = ['index.html', 'course.js', 'player.js', 'player.css'];
+
+const SCORM_12_NAMESPACES = `xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd"`;
+
+const SCORM_2004_NAMESPACES = `xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd"`;
+
+// XML identifiers must start with a letter and hold no spaces
+export const identifierFor = (title: string): string =>
+  `geeddi-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course'}`;
+
+const buildManifest = (course: Course, options: ScormOptions): string => {
+  const title = escapeHtml(course.title);
+  const files = PACKAGE_FILES.map(file => `      <file href="${file}"/>`).join('\n');
+
+  if (options.version === '1.2') {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifierFor(course.title)}" version="1.0"
+  ${SCORM_12_NAMESPACES}>
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="organization">
+    <organization identifier="organization">
+      <title>${title}</title>
+      <item identifier="item" identifierref="sco" isvisible="true">
+        <title>${title}</title>
+        <adlcp:masteryscore>${options.passThreshold}</adlcp:masteryscore>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="sco" type="webcontent" adlcp:scormtype="sco" href="index.html">
+${files}
+    </resource>
+  </resources>
+</manifest>
+`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifierFor(course.title)}" version="1"
+  ${SCORM_2004_NAMESPACES}>
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="organization">
+    <organization identifier="organization">
+      <title>${title}</title>
+      <item identifier="item" identifierref="sco" isvisible="true">
+        <title>${title}</title>
+        <imsss:sequencing>
+          <imsss:objectives>
+            <imsss:primaryObjective objectiveID="knowledge-check" satisfiedByMeasure="true">
+              <imsss:minNormalizedMeasure>${(options.passThreshold / 100).toFixed(2)}</imsss:minNormalizedMeasure>
+            </imsss:primaryObjective>
+          </imsss:objectives>
+        </imsss:sequencing>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="sco" type="webcontent" adlcp:scormType="sco" href="index.html">
+${files}
+    </resource>
+  </resources>
+</manifest>
+`;
+};
+
+export const buildScormPackage = (course: Course, options: ScormOptions): Uint8Array =>
+  createZip([
+    { path: 'imsmanifest.xml', content: buildManifest(course, options) },
+    {
+      path: 'index.html',
+      content: buildCoursePage(course, options, {
+        head: '<link rel="stylesheet" href="player.css">',
+        scripts: '<script src="course.js"></script>\n<script src="player.js"></script>',
+      }),
+    },
+    { path: 'course.js', content: `window.GEEDDI_COURSE = ${JSON.stringify(buildPlayerData(course, options, options.version))};\n` },
+    { path: 'player.js', content: PLAYER_SCRIPT },
+    { path: 'player.css', content: PLAYER_STYLES },
+  ]);
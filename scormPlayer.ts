@@ -0,0 +1,487 @@
+// Files of the HTML player inside SCORM packages (see scormExport.ts) and the
+// standalone HTML download (htmlExport.ts). The player runs without this app, so
+// it is plain browser JavaScript. It reads the quiz from window.GEEDDI_COURSE,
+// scores it the way quizScoring.ts does, and inside an LMS reports completion,
+// score and pass/fail through the SCORM 1.2 or SCORM 2004 runtime API.
+
+export const PLAYER_SCRIPT = String.raw`(function () {
+  'use strict';
+
+  var data = window.GEEDDI_COURSE;
+  var labels = data.labels;
+  var is2004 = data.version === '2004';
+  var startedAt = Date.now();
+
+  // ---- SCORM runtime ----
+
+  // Looks for the LMS API object in this window's parents, then in the opener's.
+  function searchChain(win, name) {
+    for (var depth = 0; win && depth < 10; depth++) {
+      try {
+        if (win[name]) return win[name];
+      } catch (e) {
+        // A frame from another origin; keep climbing
+      }
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  }
+
+  // Standalone copies of the page (no version) never look for an LMS
+  var apiName = is2004 ? 'API_1484_11' : 'API';
+  var api = data.version ? searchChain(window, apiName) || (window.opener ? searchChain(window.opener, apiName) : null) : null;
+  var connected = false;
+  var terminated = false;
+  var reported = false;
+
+  function setValue(key, value) {
+    if (!connected) return;
+    if (is2004) api.SetValue(key, String(value));
+    else api.LMSSetValue(key, String(value));
+  }
+
+  function getValue(key) {
+    if (!connected) return '';
+    return String(is2004 ? api.GetValue(key) : api.LMSGetValue(key));
+  }
+
+  function commit() {
+    if (!connected) return;
+    if (is2004) api.Commit('');
+    else api.LMSCommit('');
+  }
+
+  function pad(value) {
+    return (value < 10 ? '0' : '') + value;
+  }
+
+  function sessionTime() {
+    var seconds = Math.round((Date.now() - startedAt) / 1000);
+    var hours = Math.floor(seconds / 3600);
+    var minutes = Math.floor((seconds % 3600) / 60);
+    seconds = seconds % 60;
+    return is2004
+      ? 'PT' + hours + 'H' + minutes + 'M' + seconds + 'S'
+      : pad(hours) + ':' + pad(minutes) + ':' + pad(seconds);
+  }
+
+  function start() {
+    if (!api) return;
+    connected = String(is2004 ? api.Initialize('') : api.LMSInitialize('')) === 'true';
+    if (!connected) return;
+    if (is2004) {
+      if (getValue('cmi.completion_status') !== 'completed') setValue('cmi.completion_status', 'incomplete');
+    } else {
+      var status = getValue('cmi.core.lesson_status');
+      if (status === '' || status === 'not attempted') setValue('cmi.core.lesson_status', 'incomplete');
+    }
+    commit();
+  }
+
+  function reportResult(percentage, passed) {
+    reported = true;
+    if (is2004) {
+      setValue('cmi.score.scaled', (percentage / 100).toFixed(2));
+      setValue('cmi.score.raw', percentage);
+      setValue('cmi.score.min', 0);
+      setValue('cmi.score.max', 100);
+      setValue('cmi.completion_status', 'completed');
+      setValue('cmi.success_status', passed ? 'passed' : 'failed');
+    } else {
+      setValue('cmi.core.score.raw', percentage);
+      setValue('cmi.core.score.min', 0);
+      setValue('cmi.core.score.max', 100);
+      setValue('cmi.core.lesson_status', passed ? 'passed' : 'failed');
+    }
+    commit();
+  }
+
+  function finish() {
+    if (!connected || terminated) return;
+    terminated = true;
+    setValue(is2004 ? 'cmi.session_time' : 'cmi.core.session_time', sessionTime());
+    // Without a result the learner can resume the attempt later
+    setValue(is2004 ? 'cmi.exit' : 'cmi.core.exit', reported ? (is2004 ? 'normal' : '') : 'suspend');
+    commit();
+    if (is2004) api.Terminate('');
+    else api.LMSFinish('');
+  }
+
+  // ---- Quiz ----
+
+  var form = document.getElementById('quiz-form');
+  var result = document.getElementById('quiz-result');
+
+  function element(tag, className, html) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (html !== undefined) node.innerHTML = html; // Only HTML escaped by the exporter
+    return node;
+  }
+
+  function textElement(tag, className, text) {
+    var node = element(tag, className);
+    node.textContent = text;
+    return node;
+  }
+
+  // Case, whitespace and trailing punctuation never decide whether a typed answer is right.
+  function normalize(value) {
+    return value.trim().replace(/\s+/g, ' ').replace(/[.!?]+$/, '').toLowerCase();
+  }
+
+  var HINTS = {
+    'multi-select': labels.selectAllThatApply,
+    'fill-in-the-blank': labels.typeYourAnswer,
+    'ordering': labels.arrangeInOrder,
+    'matching': labels.matchEachItem,
+    'short-answer': labels.writeYourAnswer
+  };
+
+  function choiceSelect(question, ariaLabel) {
+    var select = element('select');
+    select.setAttribute('aria-label', ariaLabel);
+    select.appendChild(textElement('option', null, labels.chooseMatch)).value = '';
+    question.options.forEach(function (option, index) {
+      select.appendChild(textElement('option', null, question.optionsText[index])).value = String(index);
+    });
+    return select;
+  }
+
+  function renderQuestion(question, index) {
+    var fieldset = element('fieldset', 'question');
+    var name = 'question-' + index;
+    fieldset.appendChild(element('legend', null, (index + 1) + '. ' + question.html));
+    if (HINTS[question.type]) fieldset.appendChild(textElement('p', 'hint', HINTS[question.type]));
+
+    switch (question.type) {
+      case 'fill-in-the-blank': {
+        var input = element('input');
+        input.type = 'text';
+        input.setAttribute('aria-label', labels.typeYourAnswer);
+        fieldset.appendChild(input);
+        break;
+      }
+      case 'short-answer': {
+        var textarea = element('textarea');
+        textarea.rows = 3;
+        textarea.setAttribute('aria-label', labels.writeYourAnswer);
+        fieldset.appendChild(textarea);
+        break;
+      }
+      case 'ordering':
+        question.correctOrder.forEach(function (step, position) {
+          var row = element('div', 'choice-row');
+          row.appendChild(textElement('span', 'choice-label', (position + 1) + '.'));
+          row.appendChild(choiceSelect(question, String(position + 1)));
+          fieldset.appendChild(row);
+        });
+        break;
+      case 'matching':
+        question.matchingPairs.forEach(function (pair, pairIndex) {
+          var row = element('div', 'choice-row');
+          row.appendChild(element('span', 'choice-label', question.leftsHtml[pairIndex]));
+          row.appendChild(choiceSelect(question, pair.left));
+          fieldset.appendChild(row);
+        });
+        break;
+      default:
+        question.options.forEach(function (option, optionIndex) {
+          var label = element('label', 'option');
+          var choice = element('input');
+          choice.type = question.type === 'multi-select' ? 'checkbox' : 'radio';
+          choice.name = name;
+          choice.value = String(optionIndex);
+          label.appendChild(choice);
+          label.appendChild(element('span', null, question.optionsHtml[optionIndex]));
+          fieldset.appendChild(label);
+        });
+    }
+    fieldset.appendChild(element('div', 'feedback'));
+    return fieldset;
+  }
+
+  // The learner's answer in the shape quizScoring.ts expects, or null when unanswered.
+  function readResponse(question, fieldset) {
+    switch (question.type) {
+      case 'fill-in-the-blank':
+      case 'short-answer': {
+        var text = fieldset.querySelector('input, textarea').value.trim();
+        return text || null;
+      }
+      case 'ordering':
+      case 'matching': {
+        var picks = Array.prototype.map.call(fieldset.querySelectorAll('select'), function (select) {
+          return select.value === '' ? '' : question.options[Number(select.value)];
+        });
+        return picks.some(function (pick) { return pick !== ''; }) ? picks : null;
+      }
+      case 'multi-select': {
+        var checked = Array.prototype.map.call(fieldset.querySelectorAll('input:checked'), function (input) {
+          return question.options[Number(input.value)];
+        });
+        return checked.length > 0 ? checked : null;
+      }
+      default: {
+        var selected = fieldset.querySelector('input:checked');
+        return selected ? question.options[Number(selected.value)] : null;
+      }
+    }
+  }
+
+  // Credit from 0 to 1, or null for short answers, which need a human to grade them.
+  function grade(question, response) {
+    if (question.type === 'short-answer') return null;
+    if (response === null) return 0;
+    switch (question.type) {
+      case 'multi-select': {
+        var correct = question.correctAnswers || [];
+        if (correct.length === 0) return 0;
+        var hits = 0;
+        var misses = 0;
+        response.forEach(function (option) {
+          if (correct.indexOf(option) >= 0) hits++;
+          else misses++;
+        });
+        return Math.max(0, (hits - misses) / correct.length);
+      }
+      case 'fill-in-the-blank': {
+        var accepted = [question.correctAnswer].concat(question.acceptedAnswers || []).map(normalize);
+        return accepted.indexOf(normalize(response)) >= 0 ? 1 : 0;
+      }
+      case 'ordering': {
+        var expected = question.correctOrder || [];
+        if (expected.length === 0) return 0;
+        return expected.filter(function (step, index) { return response[index] === step; }).length / expected.length;
+      }
+      case 'matching': {
+        var pairs = question.matchingPairs || [];
+        if (pairs.length === 0) return 0;
+        return pairs.filter(function (pair, index) { return response[index] === pair.right; }).length / pairs.length;
+      }
+      default:
+        return response === question.correctAnswer ? 1 : 0;
+    }
+  }
+
+  function showFeedback(fieldset, question, credit) {
+    var feedback = fieldset.querySelector('.feedback');
+    var answerLabel = question.type === 'short-answer' ? labels.modelAnswerLabel : labels.correctAnswerLabel;
+    var message;
+    if (credit === null) {
+      message = labels.shortAnswerNotScored;
+      feedback.className = 'feedback';
+    } else if (credit === 1) {
+      message = labels.correctFeedback;
+      feedback.className = 'feedback correct';
+    } else {
+      message = credit > 0 ? labels.partiallyCorrectFeedback : labels.incorrectFeedback;
+      feedback.className = 'feedback incorrect';
+    }
+    feedback.innerHTML = '';
+    feedback.appendChild(textElement('p', null, message));
+    if (credit !== 1) {
+      var answer = element('p');
+      answer.appendChild(textElement('strong', null, answerLabel + ': '));
+      answer.appendChild(element('span', null, question.correctAnswerHtml));
+      feedback.appendChild(answer);
+    }
+  }
+
+  function renderQuiz() {
+    form.innerHTML = '';
+    result.innerHTML = '';
+    data.questions.forEach(function (question, index) {
+      form.appendChild(renderQuestion(question, index));
+    });
+    var submit = textElement('button', 'primary-button', labels.submitQuiz);
+    submit.type = 'submit';
+    form.appendChild(submit);
+  }
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    var fieldsets = form.querySelectorAll('fieldset');
+    var total = 0;
+    var scored = 0;
+    data.questions.forEach(function (question, index) {
+      var credit = grade(question, readResponse(question, fieldsets[index]));
+      showFeedback(fieldsets[index], question, credit);
+      if (credit !== null) {
+        total += credit;
+        scored++;
+      }
+      fieldsets[index].disabled = true;
+    });
+    form.querySelector('button[type="submit"]').hidden = true;
+
+    var percentage = scored > 0 ? Math.round((total / scored) * 100) : 100;
+    var passed = percentage >= data.passThreshold;
+    reportResult(percentage, passed);
+
+    result.innerHTML = '';
+    result.appendChild(textElement('p', 'score', labels.yourScore + ': ' + percentage + '%'));
+    result.appendChild(textElement('p', passed ? 'passed' : 'failed', passed ? labels.quizPassed : labels.quizFailed));
+    var retake = textElement('button', 'primary-button', labels.retakeQuiz);
+    retake.type = 'button';
+    retake.addEventListener('click', function () {
+      renderQuiz();
+      form.scrollIntoView();
+    });
+    result.appendChild(retake);
+    result.scrollIntoView();
+  });
+
+  start();
+  renderQuiz();
+  if (data.questions.length === 0) reportResult(100, true);
+  window.addEventListener('pagehide', finish);
+  window.addEventListener('beforeunload', finish);
+})();
+`;
+
+export const PLAYER_STYLES = `body {
+  margin: 0;
+  font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
+  line-height: 1.6;
+  color: #333;
+  background-color: #f0f2f5;
+}
+main {
+  max-width: 860px;
+  margin: 0 auto;
+  padding: 1.5rem;
+}
+h1, h2, h3, h4, h5, h6 {
+  color: #2c3e50;
+  line-height: 1.3;
+}
+section {
+  margin-bottom: 2rem;
+  padding: 1.5rem;
+  border-radius: 8px;
+  background-color: #fff;
+  box-shadow: 0 1px 3px rgba(0, 0, 0, 0.08);
+}
+section > h2:first-child {
+  margin-top: 0;
+}
+.lesson + .lesson {
+  border-top: 1px solid #dde3e8;
+}
+.lesson-summary {
+  font-style: italic;
+  color: #4a4e53;
+}
+pre {
+  overflow-x: auto;
+  padding: 0.75rem;
+  border-radius: 6px;
+  background-color: #f6f8fa;
+}
+blockquote {
+  margin-inline: 0;
+  padding-inline-start: 1rem;
+  border-inline-start: 4px solid #dde3e8;
+  color: #4a4e53;
+}
+.markdown-table-wrapper {
+  overflow-x: auto;
+}
+table {
+  border-collapse: collapse;
+}
+th, td {
+  padding: 0.4rem 0.75rem;
+  border: 1px solid #dde3e8;
+}
+dt {
+  font-weight: 600;
+  color: #2c3e50;
+}
+dd {
+  margin: 0 0 0.75rem 0;
+}
+.question {
+  margin: 0 0 1.5rem 0;
+  padding: 1rem;
+  border: 1px solid #dde3e8;
+  border-radius: 8px;
+}
+.question legend {
+  font-weight: 600;
+}
+.hint {
+  margin-top: 0;
+  font-size: 0.9rem;
+  color: #5f6368;
+}
+.option {
+  display: flex;
+  gap: 0.5rem;
+  align-items: baseline;
+  padding: 0.25rem 0;
+}
+.choice-row {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  align-items: center;
+  margin-bottom: 0.5rem;
+}
+.choice-label {
+  min-width: 2rem;
+}
+input[type="text"], textarea, select {
+  max-width: 100%;
+  padding: 0.4rem;
+  border: 1px solid #c4ccd4;
+  border-radius: 6px;
+  font: inherit;
+}
+input[type="text"], textarea {
+  width: 100%;
+  box-sizing: border-box;
+}
+.feedback:empty {
+  display: none;
+}
+.feedback {
+  margin-top: 0.75rem;
+  padding: 0.5rem 0.75rem;
+  border-radius: 6px;
+  background-color: #f6f8fa;
+}
+.feedback p {
+  margin: 0.25rem 0;
+}
+.feedback.correct {
+  color: #1a7a30;
+  background-color: #e9f7eb;
+}
+.feedback.incorrect {
+  color: #a0000a;
+  background-color: #fdf3f4;
+}
+.primary-button {
+  padding: 0.6rem 1.2rem;
+  border: none;
+  border-radius: 6px;
+  background-color: #544acd;
+  color: #fff;
+  font: inherit;
+  font-weight: 600;
+  cursor: pointer;
+}
+.score {
+  font-size: 1.25rem;
+  font-weight: 700;
+}
+.passed {
+  color: #1a7a30;
+}
+.failed {
+  color: #a0000a;
+}
+`;
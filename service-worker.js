@@ -1,10 +1,62 @@
-const CACHE_NAME = 'geeddi-academy-cache-v1';
+const CACHE_NAME = 'geeddi-academy-cache-v28';
 const URLS_TO_CACHE = [
   '/',
   '/index.html',
   '/index.tsx',
   '/CourseDisplay.tsx', // Added for lazy loading
   '/interfaces.ts', // Added for interfaces
+  '/courseStore.ts', // IndexedDB course library
+  '/CourseLibrary.tsx',
+  '/courseStream.ts', // Partial JSON parsing for streamed courses
+  '/courseValidation.ts',
+  '/llmProvider.ts', // LLM provider adapters
+  '/mockFixtures.ts',
+  '/coursePrompt.ts', // Course generation prompt and schema
+  '/CustomCourseForm.tsx',
+  '/quizScoring.ts', // Knowledge Check scoring and retakes
+  '/QuizInputs.tsx', // Answer inputs for the richer question types
+  '/answerGrading.ts', // Rubric grading of short-answer responses
+  '/LessonTutor.tsx',
+  '/tutorPrompt.ts', // Lesson tutor instructions
+  '/markdown.ts', // Markdown parsing shared by rendering and downloads
+  '/MarkdownContent.tsx',
+  '/courseTranslation.ts', // Course translation and answer alignment
+  '/bilingualCourse.ts', // Somali/English pairing for the side-by-side view
+  '/BilingualCourseView.tsx',
+  '/glossary.ts', // Glossary formatting for the course view and downloads
+  '/i18n.ts', // Locale registry
+  '/locales/en.ts',
+  '/locales/so.ts',
+  '/locales/ar.ts',
+  '/locales/sw.ts',
+  '/terminology.ts', // Terminology base
+  '/TerminologyEditor.tsx',
+  '/download.ts',
+  '/courseImport.ts', // Course import from JSON and Markdown downloads
+  '/courseShare.ts', // Course share links
+  '/ShareDialog.tsx',
+  '/qrCode.ts', // QR code encoder
+  '/QrCodeImage.tsx',
+  '/appLink.ts', // Address behind the "Get the app" QR code
+  '/base64url.ts',
+  '/certificate.ts', // Certificate verification codes
+  '/certificateExport.ts', // Certificate SVG and print page
+  '/CertificateDialog.tsx',
+  '/CertificateVerifier.tsx',
+  '/learningPath.ts', // Level unlocking and covered topics
+  '/LearningPathView.tsx',
+  '/progress.ts', // Lesson reading, streaks and weak topics
+  '/ProgressDashboard.tsx',
+  '/profiles.ts', // Learner profiles on a shared device
+  '/ProfilePicker.tsx',
+  '/csv.ts', // CSV cells for the results and terminology files
+  '/zip.ts', // Zip writer for the course packages
+  '/courseHtml.ts', // HTML fragments shared by the exports
+  '/htmlExport.ts', // Standalone and print HTML
+  '/epubExport.ts',
+  '/scormExport.ts',
+  '/scormPlayer.ts', // Quiz player and LMS reporting inside SCORM packages
+  '/qtiExport.ts', // QTI 2.1 package
   '/metadata.json',
   'https://aistudiocdn.com/@google/genai@^1.25.0',
   'https://aistudiocdn.com/react@^19.2.0/',
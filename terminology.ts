@@ -0,0 +1,226 @@
+import { Course, TermEntry, TermFlag } from './interfaces';
+import { LOCALE_CODES, LocaleCode, isLocaleCode } from './i18n';
+import { csvCell, parseCsv } from './csv';
+
+// Trainer-managed terminology base. Approved terms are injected into the
+// generation, translation and explanation prompts, and courses are checked for
+// forbidden variants afterwards. The base is kept in localStorage.
+
+const TERMINOLOGY_KEY = 'geeddi-terminology';
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createTermEntry = (source = ''): TermEntry => ({ id: createId(), source, renderings: {}, forbidden: {} });
+
+// Starting point for a new installation; trainers are expected to adjust it.
+export const DEFAULT_TERMINOLOGY: TermEntry[] = [
+  {
+    id: 'artificial-intelligence',
+    source: 'artificial intelligence',
+    renderings: { so: 'sirdoonka macmalka ah', ar: 'الذكاء الاصطناعي', sw: 'akili bandia' },
+    forbidden: { so: ['garaadka macmalka', 'caqliga macmalka'], sw: ['akili mnemba'] },
+  },
+  {
+    id: 'machine-learning',
+    source: 'machine learning',
+    renderings: { so: 'barashada mashiinka', ar: 'تعلّم الآلة', sw: 'ujifunzaji wa mashine' },
+    forbidden: { so: ['waxbarashada mishiinka', 'barashada makiinada'], ar: ['التعليم الآلي'] },
+  },
+  {
+    id: 'deep-learning',
+    source: 'deep learning',
+    renderings: { so: 'barashada qoto dheer', ar: 'التعلّم العميق', sw: 'ujifunzaji wa kina' },
+    forbidden: { so: ['waxbarashada qoto dheer'] },
+  },
+  {
+    id: 'neural-network',
+    source: 'neural network',
+    renderings: { so: 'shabakadda neerfaha', ar: 'الشبكة العصبية', sw: 'mtandao wa neva' },
+    forbidden: { so: ['shabakada dareemayaasha', 'network-ga neerfaha'], ar: ['الشبكة العصبونية'] },
+  },
+  {
+    id: 'training-data',
+    source: 'training data',
+    renderings: { so: 'xogta tababarka', ar: 'بيانات التدريب', sw: 'data ya mafunzo' },
+    forbidden: { so: ['macluumaadka tababarka', 'datada tababarka'] },
+  },
+  {
+    id: 'dataset',
+    source: 'dataset',
+    renderings: { so: 'kaydka xogta', ar: 'مجموعة البيانات', sw: 'seti ya data' },
+    forbidden: {},
+  },
+];
+
+export const loadTerminology = (): TermEntry[] => {
+  try {
+    const stored = localStorage.getItem(TERMINOLOGY_KEY);
+    return stored ? readEntries(JSON.parse(stored)) : DEFAULT_TERMINOLOGY;
+  } catch (err) {
+    console.error('Failed to load the terminology base:', err);
+    return DEFAULT_TERMINOLOGY;
+  }
+};
+
+export const saveTerminology = (terms: TermEntry[]) => {
+  localStorage.setItem(TERMINOLOGY_KEY, JSON.stringify(terms));
+};
+
+export const approvedTerm = (entry: TermEntry, locale: LocaleCode): string =>
+  entry.renderings[locale]?.trim() || (locale === 'en' ? entry.source.trim() : '');
+
+// Entries that say something about the given locale
+const entriesFor = (terms: TermEntry[], locale: LocaleCode) =>
+  terms.filter(entry => entry.source.trim() !== '' && approvedTerm(entry, locale) !== '');
+
+// ---- Prompt injection ----
+
+export const buildTerminologyInstruction = (terms: TermEntry[], locale: LocaleCode): string => {
+  const entries = entriesFor(terms, locale);
+  if (entries.length === 0) return '';
+
+  const lines = entries.map(entry => {
+    const forbidden = (entry.forbidden[locale] ?? []).filter(variant => variant.trim() !== '');
+    const never = forbidden.length > 0 ? ` (never ${forbidden.map(variant => `"${variant}"`).join(', ')})` : '';
+    return `- "${entry.source}": "${approvedTerm(entry, locale)}"${never}`;
+  });
+  return `
+Terminology: always use these approved terms for the following concepts, and never use the listed variants:
+${lines.join('\n')}
+`;
+};
+
+// ---- Forbidden variant check ----
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches any of the variants as whole words, ignoring case and runs of whitespace.
+export const termPattern = (variants: string[]): RegExp | null => {
+  const alternatives = [...new Set(variants.map(variant => variant.trim()).filter(variant => variant !== ''))]
+    .sort((a, b) => b.length - a.length) // Prefer the longest variant when several overlap
+    .map(variant => variant.split(/\s+/).map(escapeRegExp).join('\\s+'));
+  if (alternatives.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+};
+
+// Every text of the course with the place it belongs to
+const courseTexts = (course: Course): { section: TermFlag['section']; index: number; text: string }[] => [
+  { section: 'title', index: 0, text: course.title },
+  ...course.outline.map((text, index) => ({ section: 'outline' as const, index, text })),
+  ...course.lessons.flatMap((lesson, index) => [
+    { section: 'lesson' as const, index, text: lesson.title },
+    { section: 'lesson' as const, index, text: course.lessonSummaries[index] ?? '' },
+    { section: 'lesson' as const, index, text: lesson.content },
+  ]),
+  { section: 'summary', index: 0, text: course.summary },
+  ...(course.glossary ?? []).flatMap((entry, index) =>
+    [entry.term, entry.definition].map(text => ({ section: 'glossary' as const, index, text }))
+  ),
+  ...course.quiz.flatMap((item, index) =>
+    [item.question, ...item.options, item.correctAnswer, ...(item.rubric ?? [])].map(text => ({ section: 'quiz' as const, index, text }))
+  ),
+];
+
+export const findForbiddenTerms = (course: Course, terms: TermEntry[], locale: LocaleCode): TermFlag[] => {
+  const flags: TermFlag[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entriesFor(terms, locale)) {
+    const pattern = termPattern(entry.forbidden[locale] ?? []);
+    if (!pattern) continue;
+    for (const { section, index, text } of courseTexts(course)) {
+      for (const match of text.matchAll(pattern)) {
+        const key = `${section}:${index}:${match[0].toLowerCase()}`;
+        if (seen.has(key)) continue; // One flag per variant and place
+        seen.add(key);
+        flags.push({ section, index, found: match[0], approved: approvedTerm(entry, locale), source: entry.source });
+      }
+    }
+  }
+  return flags;
+};
+
+// ---- Import and export ----
+
+const readStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()) : [];
+
+// Keeps only the locales the app knows about and well-formed values.
+const readEntries = (value: unknown): TermEntry[] => {
+  const list = Array.isArray(value) ? value : value && typeof value === 'object' ? (value as { terms?: unknown }).terms : undefined;
+  if (!Array.isArray(list)) throw new Error('Expected a list of terms');
+
+  return list.map((raw, position) => {
+    const item = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    if (typeof item.source !== 'string' || item.source.trim() === '') throw new Error(`Term ${position + 1} has no source term`);
+    const renderings: TermEntry['renderings'] = {};
+    const forbidden: TermEntry['forbidden'] = {};
+    const rawRenderings = item.renderings && typeof item.renderings === 'object' ? item.renderings as Record<string, unknown> : {};
+    const rawForbidden = item.forbidden && typeof item.forbidden === 'object' ? item.forbidden as Record<string, unknown> : {};
+    for (const locale of LOCALE_CODES) {
+      const rendering = rawRenderings[locale];
+      if (typeof rendering === 'string' && rendering.trim() !== '') renderings[locale] = rendering.trim();
+      const variants = readStringList(rawForbidden[locale]);
+      if (variants.length > 0) forbidden[locale] = variants;
+    }
+    return { id: typeof item.id === 'string' && item.id ? item.id : createId(), source: item.source.trim(), renderings, forbidden };
+  });
+};
+
+const CSV_HEADER = ['source', 'locale', 'approved', 'forbidden'];
+
+// One row per source term and locale; forbidden variants are separated by "|".
+export const exportTerminologyCsv = (terms: TermEntry[]): string => {
+  const rows = terms.flatMap(entry =>
+    LOCALE_CODES
+      .filter(locale => entry.renderings[locale] || entry.forbidden[locale]?.length)
+      .map(locale => [entry.source, locale, entry.renderings[locale] ?? '', (entry.forbidden[locale] ?? []).join(' | ')])
+  );
+  return [CSV_HEADER, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+export const exportTerminologyJson = (terms: TermEntry[]): string => JSON.stringify({ terms }, null, 2);
+
+const readCsvEntries = (text: string): TermEntry[] => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = header.map(cell => cell.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+  if (column('source') === -1 || column('locale') === -1) throw new Error('The CSV needs "source" and "locale" columns');
+
+  const bySource = new Map<string, TermEntry>();
+  rows.forEach((cells, position) => {
+    const source = (cells[column('source')] ?? '').trim();
+    const locale = (cells[column('locale')] ?? '').trim().toLowerCase();
+    if (!source) throw new Error(`Row ${position + 2} has no source term`);
+    if (!isLocaleCode(locale)) throw new Error(`Row ${position + 2} has an unknown locale "${locale}"`);
+    const key = source.toLowerCase();
+    const entry = bySource.get(key) ?? createTermEntry(source);
+    const approved = (cells[column('approved')] ?? '').trim();
+    if (approved) entry.renderings[locale] = approved;
+    const variants = (cells[column('forbidden')] ?? '').split('|').map(variant => variant.trim()).filter(variant => variant !== '');
+    if (variants.length > 0) entry.forbidden[locale] = variants;
+    bySource.set(key, entry);
+  });
+  return [...bySource.values()];
+};
+
+// Reads a JSON or CSV export. Throws an Error describing the first problem found.
+export const parseTerminology = (text: string): TermEntry[] => {
+  const trimmed = text.trim();
+  return trimmed.startsWith('[') || trimmed.startsWith('{') ? readEntries(JSON.parse(trimmed)) : readCsvEntries(trimmed);
+};
+
+// Imported entries replace existing entries with the same source term; the rest are added.
+export const mergeTerminology = (current: TermEntry[], imported: TermEntry[]): TermEntry[] => {
+  const importedBySource = new Map(imported.map(entry => [entry.source.toLowerCase(), entry]));
+  const merged = current.map(entry => {
+    const replacement = importedBySource.get(entry.source.toLowerCase());
+    if (!replacement) return entry;
+    importedBySource.delete(entry.source.toLowerCase());
+    return { ...replacement, id: entry.id };
+  });
+  return [...merged, ...importedBySource.values()];
+};
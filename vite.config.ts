@@ -12,7 +12,21 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // LLM provider selection: 'gemini' (default), 'openai-compatible' or 'mock'
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_COURSE_MODEL': JSON.stringify(env.LLM_COURSE_MODEL),
+        'process.env.LLM_EXPLANATION_MODEL': JSON.stringify(env.LLM_EXPLANATION_MODEL),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+        // Minimum Knowledge Check percentage needed to pass (default 70)
+        'process.env.QUIZ_PASS_THRESHOLD': JSON.stringify(env.QUIZ_PASS_THRESHOLD),
+        // Address behind the "Get the app" QR code (default: the manifest's start_url)
+        'process.env.APP_INSTALL_URL': JSON.stringify(env.APP_INSTALL_URL),
+        // Certificate verification codes: the ECDSA P-256 public key (base64 SPKI) that checks them,
+        // and the service holding the private key that signs them. Without both, certificates carry no code
+        'process.env.CERTIFICATE_PUBLIC_KEY': JSON.stringify(env.CERTIFICATE_PUBLIC_KEY),
+        'process.env.CERTIFICATE_SIGNING_URL': JSON.stringify(env.CERTIFICATE_SIGNING_URL)
       },
       resolve: {
         alias: {